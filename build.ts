@@ -7,29 +7,161 @@ import {
   extname,
   join,
   relative,
+  fromFileUrl,
+  isAbsolute,
+  resolve,
+  SEPARATOR,
+  toFileUrl,
 } from '@std/path';
 import { crypto } from '@std/crypto';
+import katex from 'katex';
+import type {
+  AstrodonPlugin,
+  BuildConfig,
+  BuildFileError,
+  BuildOptions,
+  BuildPage,
+  BuildResult,
+  PageContext,
+} from './mod.ts';
+import {
+  type FrontmatterSchema,
+  type Meta,
+  extractMetadata,
+  parseFrontmatter,
+  validateFrontmatter,
+} from './frontmatter.ts';
+import {
+  type ComponentOptions,
+  insertComponents,
+  renderComponents,
+  renderMarkdownComponents,
+} from './components.ts';
+import { expandIncludes, expandPartials, findIncludes } from './include.ts';
+import {
+  type LayoutOptions,
+  findDirectoryLayout,
+  loadLayout,
+} from './layout.ts';
+import { loadOptimizationConfig } from './optimization.ts';
+import {
+  HIGHLIGHT_CSS,
+  HIGHLIGHT_CSS_PATH,
+  highlightCode,
+  highlightCodeLines,
+  parseCodeMeta,
+} from './highlight.ts';
+import {
+  type MarkdownNode,
+  type NodeRenderers,
+  type Root,
+  escapeHtml,
+  parseMarkdown,
+  renderHtml,
+  toPlainText,
+  visit,
+} from './markdown.ts';
+import type {
+  NavItem,
+  RenderContext,
+  SiteData,
+  SitePage,
+} from './template.ts';
+
+// Build configuration with defaults applied, set at the start of build().
+// Only one build runs per process at a time.
+let config: BuildConfig;
+let plugins: AstrodonPlugin[] = [];
+
+// Site name used in titles and the navbar unless `site.name` is set
+const DEFAULT_SITE_NAME = 'Astrodon';
+
+// Warnings reported during the current build, returned in BuildResult
+let buildWarnings: string[] = [];
+
+function warn(message: string) {
+  console.log(`⚠️  ${message}`);
+  buildWarnings.push(message);
+}
+
+// Assets and server files that failed to copy in the current build; page
+// failures come from the page results
+let buildErrors: BuildFileError[] = [];
+
+function recordError(
+  kind: BuildFileError['kind'],
+  filePath: string,
+  error: unknown
+) {
+  const message = error instanceof Error ? error.message : String(error);
+  buildErrors.push({ kind, filePath, message, error });
+}
 
-// Frontmatter is arbitrary YAML, so values are intentionally loosely typed.
-// deno-lint-ignore no-explicit-any
-type Meta = Record<string, any>;
+const WATCH_DEBOUNCE_MS = 100;
 
-// Cache for processed files to avoid reprocessing unchanged content
-const fileCache = new Map<string, { hash: string; content: string }>();
+// Longest delay setTimeout supports; later publish times are waited for in
+// steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
 
-// Configurable directories via CLI flags
-function getArg(name: string, defaultValue: string): string {
-  const arg = Deno.args.find(a => a.startsWith(`--${name}=`));
-  if (!arg) return defaultValue;
-  return arg.substring(name.length + 3);
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff'];
+
+// Recorded in the build cache so that upgrading Astrodon invalidates it.
+// Keep in sync with the version in deno.json.
+const ASTRODON_VERSION = '0.2.7';
+
+interface CacheEntry {
+  // Hash of everything the page output depends on (source, navigation, TOC)
+  hash: string;
+  outputPath: string;
+  meta: Meta;
+  // Files the page's plugin hooks emitted, which a cache hit keeps
+  emittedFiles: string[];
+}
+
+interface CacheManifest {
+  version: string;
+  outDir: string;
+  templateHash: string;
+  componentsHash: string;
+  layoutsHash: string;
+  siteHash: string;
+  assetsHash: string;
+  pluginsHash: string;
+  entries: Record<string, CacheEntry>;
+}
+
+type CacheKeys = Pick<
+  CacheManifest,
+  | 'templateHash'
+  | 'componentsHash'
+  | 'layoutsHash'
+  | 'siteHash'
+  | 'assetsHash'
+  | 'pluginsHash'
+>;
+
+// Build cache persisted next to outDir so unchanged pages are skipped across runs
+let buildCache: CacheManifest;
+
+// Directory next to outDir with the state Astrodon keeps between builds,
+// one per outDir so siblings like `dist` and `dist-preview` don't share it
+function getStateDir(): string {
+  const outDir = resolve(config.outDir);
+  return join(dirname(outDir), '.astrodon', basename(outDir));
+}
+
+function getCacheManifestPath(): string {
+  return join(getStateDir(), 'cache.json');
 }
 
-// Content and output directories (can be absolute or relative)
-const contentDir = getArg('contentDir', './routes');
-const outDir = getArg('outDir', './dist');
-const assetsDir = getArg('assetsDir', './assets');
-const componentsDir = getArg('componentsDir', './components');
-const templatePath = getArg('template', './template.ts');
+function createCacheManifest(keys: CacheKeys): CacheManifest {
+  return {
+    version: ASTRODON_VERSION,
+    outDir: resolve(config.outDir),
+    ...keys,
+    entries: {},
+  };
+}
 
 // Simple hash function for file content
 async function getFileHash(content: string): Promise<string> {
@@ -40,681 +172,578 @@ async function getFileHash(content: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-// Check if file needs reprocessing
-async function needsReprocessing(
-  filePath: string,
-  content: string
-): Promise<boolean> {
-  const cached = fileCache.get(filePath);
-  if (!cached) return true;
-
-  const currentHash = await getFileHash(content);
-  return cached.hash !== currentHash;
-}
+// Hash every file in a directory tree (paths and contents), or '' if missing
+async function getDirectoryHash(
+  dir: string,
+  filter: (name: string) => boolean = () => true
+): Promise<string> {
+  const parts: string[] = [];
+
+  async function collect(current: string) {
+    for await (const entry of Deno.readDir(current)) {
+      const entryPath = join(current, entry.name);
+      if (entry.isDirectory) {
+        await collect(entryPath);
+      } else if (entry.isFile && filter(entry.name)) {
+        parts.push(
+          `${relative(dir, entryPath)}\0${await Deno.readTextFile(entryPath)}`
+        );
+      }
+    }
+  }
 
-// Update cache after processing
-async function updateCache(
-  filePath: string,
-  content: string,
-  processedContent: string
-) {
-  const hash = await getFileHash(content);
-  fileCache.set(filePath, { hash, content: processedContent });
+  try {
+    await collect(dir);
+  } catch {
+    return '';
+  }
+  return getFileHash(parts.sort().join('\0'));
 }
 
-// Optimized markdown to HTML conversion with consolidated regex operations
-function parseMarkdown(markdown: string): string {
-  // Store script tags first to preserve their structure
-  const scriptBlocks: string[] = [];
-  let scriptBlockIndex = 0;
-
-  markdown = markdown.replace(
-    /<script>([\s\S]*?)<\/script>/g,
-    function (match, _scriptContent) {
-      scriptBlocks.push(match);
-      return `\n\n__SCRIPT_BLOCK_${scriptBlockIndex++}__\n\n`;
+// Load the cache manifest, discarding it when the template, components,
+// layouts, site settings, optimized images, plugins or Astrodon version no
+// longer match
+async function loadBuildCache(): Promise<void> {
+  const templateFile = getTemplateFilePath();
+  let templateHash = config.template;
+  if (templateFile) {
+    try {
+      templateHash = await getFileHash(await Deno.readTextFile(templateFile));
+    } catch {
+      templateHash = '';
     }
+  }
+  const componentsHash = await getDirectoryHash(config.componentsDir);
+  const layoutsHash = await getDirectoryHash(config.layoutsDir);
+  const siteHash = await getFileHash(JSON.stringify(config.site));
+  // Pages reference WebP variants only when they exist, so track which do
+  const assetsHash = await getDirectoryHash(
+    join(config.outDir, 'assets'),
+    name => name.endsWith('.webp')
   );
+  // Plugins are code, so their hooks' source stands in for a content hash
+  const pluginsHash = await getFileHash(
+    plugins
+      .map(plugin =>
+        [
+          plugin.name,
+          ...Object.values(plugin).map(value =>
+            typeof value === 'function' ? value.toString() : ''
+          ),
+        ].join('\0')
+      )
+      .join('\0')
+  );
+  const fresh = createCacheManifest({
+    templateHash,
+    componentsHash,
+    layoutsHash,
+    siteHash,
+    assetsHash,
+    pluginsHash,
+  });
 
-  // Images - ensure proper asset paths with WebP fallback (process before links)
-  markdown = markdown.replace(
-    /!\[([^\]]*)\]\(([^)]+)\)/g,
-    (_match, alt, src) => {
-      // Clean up src path
-      let origSrc = src;
-      if (
-        !src.startsWith('http') &&
-        !src.startsWith('https') &&
-        !src.startsWith('/assets/')
-      ) {
-        origSrc = `/assets/${src.replace(/^\.?\/?/, '')}`;
-      }
+  try {
+    const stored: CacheManifest = JSON.parse(
+      await Deno.readTextFile(getCacheManifestPath())
+    );
+    if (
+      stored.version === fresh.version &&
+      stored.outDir === fresh.outDir &&
+      stored.templateHash === fresh.templateHash &&
+      stored.componentsHash === fresh.componentsHash &&
+      stored.layoutsHash === fresh.layoutsHash &&
+      stored.siteHash === fresh.siteHash &&
+      stored.assetsHash === fresh.assetsHash &&
+      stored.pluginsHash === fresh.pluginsHash
+    ) {
+      buildCache = stored;
+      return;
+    }
+    console.log('♻️  Build cache invalidated');
+  } catch {
+    // No cache yet (or unreadable) - start cold
+  }
+  buildCache = fresh;
+}
 
-      // Generate WebP path
-      let webpSrc = origSrc;
-      // Remove any query/hash from src for webp path
-      webpSrc = webpSrc.replace(/[#?].*$/, '');
-      webpSrc = webpSrc.replace(/\.[^.\/]+$/, '.webp');
+async function saveBuildCache(): Promise<void> {
+  if (!config.optimization.build.cache.enabled) return;
+  try {
+    const cacheManifestPath = getCacheManifestPath();
+    await ensureDir(dirname(cacheManifestPath));
+    await Deno.writeTextFile(
+      cacheManifestPath,
+      JSON.stringify(buildCache, null, 2)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    warn(`Could not write build cache: ${message}`);
+  }
+}
+
+// Files the build wrote to outDir, relative to it. Saved as a manifest so the
+// next build can remove the files it no longer produces, like the page of a
+// deleted markdown file.
+const outputFiles = new Set<string>();
+
+interface OutputManifest {
+  outDir: string;
+  files: string[];
+}
+
+function trackOutput(path: string) {
+  outputFiles.add(relative(resolve(config.outDir), resolve(path)));
+}
+
+function getOutputManifestPath(): string {
+  return join(getStateDir(), 'outputs.json');
+}
+
+async function saveOutputManifest(): Promise<void> {
+  const manifest: OutputManifest = {
+    outDir: resolve(config.outDir),
+    files: [...outputFiles].sort(),
+  };
+  try {
+    await ensureDir(dirname(getOutputManifestPath()));
+    await Deno.writeTextFile(
+      getOutputManifestPath(),
+      JSON.stringify(manifest, null, 2)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    warn(`Could not write output manifest: ${message}`);
+  }
+}
+
+// Remove the files the previous build produced and this one didn't, with
+// the directories they leave empty. Files the build never wrote are kept.
+async function removeStaleOutputs(): Promise<void> {
+  const outDir = resolve(config.outDir);
+  let previous: OutputManifest | null = null;
+  try {
+    previous = JSON.parse(await Deno.readTextFile(getOutputManifestPath()));
+  } catch {
+    // No manifest yet - nothing is known to be stale
+  }
 
-      // Check if WebP file exists in output assets
-      const webpPath = join(outDir, webpSrc.replace(/^\/assets\//, 'assets/'));
-      let webpExists = false;
+  if (previous?.outDir === outDir) {
+    for (const file of previous.files) {
+      if (outputFiles.has(file)) continue;
+      const path = resolve(outDir, file);
+      if (!isWithin(path, outDir) || path === outDir) continue;
       try {
-        // Synchronous check for file existence
-        const stat = Deno.statSync(webpPath);
-        webpExists = stat.isFile;
+        await Deno.remove(path);
+        console.log(`🗑️  Removed stale ${join(config.outDir, file)}`);
       } catch {
-        // File doesn't exist
-        webpExists = false;
+        // Already gone
+        continue;
       }
-
-      // Use WebP directly if it exists, otherwise use original
-      if (webpExists) {
-        return `<img src="${webpSrc}" alt="${alt}">`;
-      } else {
-        // If WebP doesn't exist, just use the original image
-        return `<img src="${origSrc}" alt="${alt}">`;
+      // Remove the directories left empty, up to outDir
+      for (let dir = dirname(path); dir !== outDir; dir = dirname(dir)) {
+        try {
+          await Deno.remove(dir);
+        } catch {
+          break;
+        }
       }
     }
-  );
+  }
+  await saveOutputManifest();
+}
 
-  // Links (process after images to avoid conflicts)
-  markdown = markdown.replace(
-    /\[([^\]]+)\]\(([^)]+)\)/g,
-    (_match, text, url) => {
-      // Add target="_blank" to all links
-      return `<a href="${url}" target="_blank" rel="noopener noreferrer">${text}</a>`;
+// Empty outDir for a clean build. Only directories inside the project (the
+// working directory) are emptied, and never one holding the content,
+// assets, components or layouts.
+async function cleanOutDir(): Promise<void> {
+  const outDir = resolve(config.outDir);
+  const project = resolve(Deno.cwd());
+  if (outDir === project || !isWithin(outDir, project)) {
+    throw new Error(
+      `Refusing to clean ${config.outDir}: it is outside the project ${project}`
+    );
+  }
+  const sources = [
+    config.contentDir,
+    config.assetsDir,
+    config.componentsDir,
+    config.layoutsDir,
+  ];
+  for (const source of sources) {
+    if (isWithin(resolve(source), outDir)) {
+      throw new Error(
+        `Refusing to clean ${config.outDir}: it contains ${source}`
+      );
     }
-  );
+  }
 
-  // --- CODE BLOCK HANDLING ---
-  // Store raw code blocks and insert uncommon delimiter placeholders
-  // This MUST happen BEFORE list processing to prevent YAML/JSON content from being converted to lists
-  const rawCodeBlocks: { lang: string; code: string }[] = [];
-  let rawCodeBlockIndex = 0;
-  // Support CRLF and optional/trailing spaces after language token
-  markdown = markdown.replace(
-    /```([^\r\n]+)?\r?\n([\s\S]*?)```/g,
-    function (_match, language, code) {
-      rawCodeBlocks.push({
-        lang: language ? String(language).trim() : 'plaintext',
-        code: code, // preserve as-is
-      });
-      return `@@CODEBLOCK${rawCodeBlockIndex++}@@`;
+  try {
+    for await (const entry of Deno.readDir(outDir)) {
+      await Deno.remove(join(outDir, entry.name), { recursive: true });
     }
-  );
-  // --- END CODE BLOCK HANDLING ---
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  outputFiles.clear();
+  console.log(`🧹 Cleaned ${config.outDir}`);
+}
 
-  // Wrap standalone HTML blocks (e.g., <script>...</script>) in <pre><code> unless already in a code block or script block placeholder
-  markdown = markdown.replace(
-    /(^|\n)(<script[\s\S]*?<\/script>)/g,
-    (match, p1, p2) => {
-      // Only wrap if not already inside a code block or script block placeholder
-      if (
-        !/^@@CODEBLOCK\d+@@$/.test(p2.trim()) &&
-        !/^__SCRIPT_BLOCK_\d+__$/.test(p2.trim())
-      ) {
-        return `${p1}<pre><code class=\"language-html\">${p2
-          .replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;')}</code></pre>`;
-      }
-      return match;
-    }
-  );
+// Pages by the absolute paths of the partials and files they include, so
+// watch mode can rebuild them when one of those changes
+const includeDependents = new Map<string, Set<string>>();
 
-  // --- NESTED LISTS HANDLING ---
-  // We'll process the markdown line by line for lists, then join back for the rest of the regexes
-  const lines = markdown.split(/\r?\n/);
-  const htmlLines: string[] = [];
-  const listStack: { type: 'ul' | 'ol'; indent: number }[] = [];
-  const listItemRegex = /^([ ]{0,6})([-*]|\d+\.)[ ]+(.*)$/;
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const match = line.match(listItemRegex);
-    if (match) {
-      const indent = Math.floor(match[1].length / 2); // 2 spaces per level
-      const marker = match[2];
-      const content = match[3];
-      const isOrdered = /\d+\./.test(marker);
-      const type = isOrdered ? 'ol' : 'ul';
-
-      // Close lists if we're dedenting
-      while (
-        listStack.length > 0 &&
-        indent < listStack[listStack.length - 1].indent
-      ) {
-        htmlLines.push(`</${listStack.pop()!.type}>`);
-      }
-      // Open new lists if we're indenting
-      if (
-        listStack.length === 0 ||
-        indent > listStack[listStack.length - 1].indent
-      ) {
-        for (
-          let j =
-            listStack.length > 0
-              ? listStack[listStack.length - 1].indent + 1
-              : 0;
-          j <= indent && j < 3;
-          j++
-        ) {
-          htmlLines.push(`<${type}>`);
-          listStack.push({ type, indent: j });
-        }
-      }
-      // If switching between ul/ol at same indent, close and open
-      if (
-        listStack.length > 0 &&
-        listStack[listStack.length - 1].type !== type &&
-        indent === listStack[listStack.length - 1].indent
-      ) {
-        htmlLines.push(`</${listStack.pop()!.type}>`);
-        htmlLines.push(`<${type}>`);
-        listStack.push({ type, indent });
-      }
-      htmlLines.push(`<li>${content}</li>`);
-    } else {
-      // Close any open lists if a non-list line is found
-      while (listStack.length > 0) {
-        htmlLines.push(`</${listStack.pop()!.type}>`);
-      }
-      htmlLines.push(line);
-    }
+// Record the included files of a page, replacing what it included before
+function trackIncludes(filePath: string, includedPaths: string[]) {
+  for (const dependents of includeDependents.values()) {
+    dependents.delete(filePath);
   }
-  // Close any remaining open lists
-  while (listStack.length > 0) {
-    htmlLines.push(`</${listStack.pop()!.type}>`);
+  for (const path of includedPaths) {
+    if (!includeDependents.has(path)) includeDependents.set(path, new Set());
+    includeDependents.get(path)!.add(filePath);
   }
-  markdown = htmlLines.join('\n');
-  // --- END NESTED LISTS HANDLING ---
-
-  // --- DEFINITION LISTS HANDLING ---
-  // Process definition lists: term on one line, : definition on next line
-  const defLines = markdown.split(/\r?\n/);
-  const defHtmlLines: string[] = [];
-  let inDefinitionList = false;
+}
 
-  for (let i = 0; i < defLines.length; i++) {
-    const line = defLines[i];
-    const trimmedLine = line.trim();
+// Every page of the site with its frontmatter, collected before any page is
+// rendered so templates can list other pages
+let sitePages: SitePage[] = [];
+let sitePagesHash = '';
 
-    // Check if this is a definition line (starts with : followed by space)
-    const defMatch = trimmedLine.match(/^:\s+(.+)$/);
+// Collect the pages of the site; true if their URLs or frontmatter changed
+async function updateSitePages(markdownFiles: string[]): Promise<boolean> {
+  const pages: SitePage[] = [];
+  for (const filePath of markdownFiles) {
+    let meta: Meta = {};
+    try {
+      meta = parseFrontmatter(await Deno.readTextFile(filePath)).meta;
+    } catch {
+      // Unreadable pages or invalid frontmatter fail when the page is built
+    }
+    const { currentPath, outputPath } = getPagePaths(filePath);
+    pages.push({
+      url: currentPath,
+      sourcePath: filePath,
+      outputPath,
+      directory: relative(config.contentDir, dirname(filePath)),
+      meta,
+    });
+  }
+  pages.sort((a, b) => a.url.localeCompare(b.url));
 
-    if (defMatch) {
-      // This is a definition line
-      if (!inDefinitionList) {
-        // Start a new definition list
-        inDefinitionList = true;
-        defHtmlLines.push('<dl>');
-      }
+  const hash = await getFileHash(JSON.stringify(pages));
+  const changed = hash !== sitePagesHash;
+  sitePages = pages;
+  sitePagesHash = hash;
+  return changed;
+}
 
-      // Add the definition - preserve line breaks within the definition
-      const definition = defMatch[1];
-      defHtmlLines.push(`<dd>${definition}</dd>`);
-    } else if (
-      trimmedLine &&
-      !trimmedLine.startsWith('<') &&
-      !trimmedLine.startsWith('>') &&
-      !trimmedLine.startsWith('#') &&
-      !trimmedLine.startsWith('|') &&
-      !trimmedLine.startsWith('-') &&
-      !trimmedLine.startsWith('*') &&
-      !trimmedLine.match(/^\d+\./) &&
-      !trimmedLine.startsWith('```') &&
-      !trimmedLine.startsWith('---') &&
-      !trimmedLine.startsWith('_[') &&
-      !trimmedLine.match(/^\[\^[^\]]+\]:/)
-    ) {
-      // This could be a term line (not empty, not HTML, not other markdown elements)
-      if (inDefinitionList) {
-        // Close the previous definition list
-        defHtmlLines.push('</dl>');
-        inDefinitionList = false;
-      }
+// Timestamp of a page's `date` frontmatter, or null without a valid one
+function getPageTime(page: SitePage): number | null {
+  if (!page.meta.date) return null;
+  const time = new Date(page.meta.date).getTime();
+  return Number.isNaN(time) ? null : time;
+}
 
-      // Check if the next line is a definition
-      const nextLine = defLines[i + 1];
-      const nextTrimmed = nextLine ? nextLine.trim() : '';
-      const nextIsDefinition = nextTrimmed.match(/^:\s+(.+)$/);
+// The site as seen by templates, with queries over its pages
+function createSiteData(pages: SitePage[], navigation: NavItem[]): SiteData {
+  const tagsOf = (page: SitePage): string[] =>
+    Array.isArray(page.meta.tags) ? page.meta.tags.map(String) : [];
 
-      if (nextIsDefinition) {
-        // This is a term, start a new definition list
-        inDefinitionList = true;
-        defHtmlLines.push('<dl>');
-        defHtmlLines.push(`<dt>${trimmedLine}</dt>`);
-      } else {
-        // Not part of a definition list, keep as is
-        defHtmlLines.push(line);
-      }
-    } else {
-      // Not a definition list element, close any open definition list
-      if (inDefinitionList) {
-        defHtmlLines.push('</dl>');
-        inDefinitionList = false;
+  return {
+    pages,
+    navigation,
+    inDirectory: directory => {
+      const normalized = directory.replace(/^\/+|\/+$/g, '');
+      return pages.filter(page => page.directory === normalized);
+    },
+    withTag: tag => pages.filter(page => tagsOf(page).includes(tag)),
+    tags: () => {
+      const counts = new Map<string, number>();
+      for (const tag of pages.flatMap(tagsOf)) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
       }
-      defHtmlLines.push(line);
-    }
-  }
+      return [...counts]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+    },
+    sortedByDate: (list = pages) =>
+      [...list].sort((a, b) => {
+        const timeA = getPageTime(a);
+        const timeB = getPageTime(b);
+        if (timeA !== null && timeB !== null) return timeB - timeA;
+        if (timeA !== null) return -1;
+        if (timeB !== null) return 1;
+        return a.url.localeCompare(b.url);
+      }),
+  };
+}
 
-  // Close any remaining open definition list
-  if (inDefinitionList) {
-    defHtmlLines.push('</dl>');
+// Compute the cache hash of a page. Besides its own source this covers the
+// navigation it embeds, the partials and files it includes, the pages the
+// template can list and, for {{routes:toc}} pages, the posts it lists.
+async function getPageHash(
+  filePath: string,
+  content: string,
+  navigationHTML: string
+): Promise<string> {
+  let expanded: string;
+  let partialFiles: string[] = [];
+  try {
+    ({ markdown: expanded, files: partialFiles } = await expandPartials(
+      content,
+      filePath,
+      getPartialsDir()
+    ));
+  } catch {
+    // Broken partials fail the page, so it must not be served from cache
+    expanded = `${content}\0broken ${crypto.randomUUID()}`;
   }
 
-  markdown = defHtmlLines.join('\n');
-  // --- END DEFINITION LISTS HANDLING ---
-
-  // --- TABLES HANDLING ---
-  // Convert markdown tables to HTML tables before other regexes
-  markdown = markdown.replace(/((?:^\|.*\|.*\n)+)/gm, block => {
-    // Only process if block looks like a table (at least 2 lines, starts with |, has --- separator)
-    const lines = block.trim().split(/\r?\n/);
-    if (lines.length < 2) return block;
-    if (
-      !lines[0].startsWith('|') ||
-      !lines[1].replace(/\s/g, '').match(/^\|?[-:|]+\|?$/)
-    )
-      return block;
-    // Parse header
-    const headerCells = lines[0]
-      .split('|')
-      .slice(1, -1)
-      .map(cell => cell.trim());
-    // Parse rows
-    const rows = lines.slice(2).map(row =>
-      row
-        .split('|')
-        .slice(1, -1)
-        .map(cell => cell.trim())
-    );
-    let html = '<table><thead><tr>';
-    for (const cell of headerCells) html += `<th>${cell}</th>`;
-    html += '</tr></thead><tbody>';
-    for (const row of rows) {
-      if (row.length === 0 || (row.length === 1 && row[0] === '')) continue;
-      html += '<tr>';
-      for (const cell of row) html += `<td>${cell}</td>`;
-      html += '</tr>';
-    }
-    html += '</tbody></table>';
-    return `<div class="table-responsive">${html}</div>`;
-  });
-  // --- END TABLES HANDLING ---
-
-  // --- TASK LISTS HANDLING ---
-  // Convert markdown task list items to HTML checkboxes
-  markdown = markdown.replace(
-    /<li>\s*\[x\]\s*(.*?)<\/li>/gi,
-    '<li class="task-list-item"><input type="checkbox" checked disabled> $1</li>'
-  );
-  markdown = markdown.replace(
-    /<li>\s*\[ \]\s*(.*?)<\/li>/gi,
-    '<li class="task-list-item"><input type="checkbox" disabled> $1</li>'
-  );
-  // --- END TASK LISTS HANDLING ---
-
-  // --- ABBREVIATIONS HANDLING ---
-  // Collect abbreviation definitions
-  const abbrevDefs: Record<string, string> = {};
-  markdown = markdown.replace(
-    /^\\_\[(.+?)\]:\s*(.+)$/gm,
-    (_match, abbr, def) => {
-      abbrevDefs[abbr] = def;
-      return '';
-    }
-  );
-  // Replace abbreviation references with <abbr> elements
-  Object.keys(abbrevDefs).forEach(abbr => {
-    const regex = new RegExp(
-      `\\b${abbr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`,
-      'gi'
-    );
-    markdown = markdown.replace(
-      regex,
-      `<abbr title="${abbrevDefs[abbr]}">${abbr}</abbr>`
-    );
-  });
-  // --- END ABBREVIATIONS HANDLING ---
-
-  // --- FOOTNOTES HANDLING (before paragraph wrapping) ---
-  // Collect footnote definitions first (both at start of line and after newlines)
-  const footnoteDefs: Record<string, string> = {};
-  markdown = markdown.replace(
-    /^\[\^([^\]]+)\]:\s*(.+)$/gm,
-    (_match, name, def) => {
-      footnoteDefs[name] = def.trim();
-      return '';
+  const includes = findIncludes(expanded, filePath);
+  trackIncludes(filePath, [
+    ...partialFiles,
+    ...includes.map(include => include.path),
+  ]);
+  const includeSources: string[] = [];
+  for (const include of includes) {
+    try {
+      includeSources.push(await Deno.readTextFile(include.path));
+    } catch {
+      // Missing files fail the page, so it must not be served from cache
+      includeSources.push(`missing ${crypto.randomUUID()}`);
     }
-  );
+  }
 
-  // Also handle footnote definitions that might be at the end of content
-  markdown = markdown.replace(
-    /\n\[\^([^\]]+)\]:\s*(.+)$/gm,
-    (_match, name, def) => {
-      if (!footnoteDefs[name]) {
-        footnoteDefs[name] = def.trim();
+  let tocSources = '';
+  if (content.includes('{{routes:toc}}')) {
+    const siblings: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(dirname(filePath))) {
+        if (entry.isFile && entry.name.endsWith('.md')) {
+          const siblingPath = join(dirname(filePath), entry.name);
+          siblings.push(
+            `${entry.name}\0${await Deno.readTextFile(siblingPath)}`
+          );
+        }
       }
-      return '';
+    } catch {
+      // Directory unreadable - the TOC itself will report the error
     }
+    tocSources = siblings.sort().join('\0');
+  }
+  return getFileHash(
+    [
+      expanded,
+      navigationHTML,
+      ...includeSources,
+      tocSources,
+      sitePagesHash,
+    ].join('\0')
   );
+}
 
-  // Replace footnote references with numbered links (but not definitions)
-  let footnoteCounter = 1;
-  const footnoteRefs: Record<string, number> = {};
-
-  markdown = markdown.replace(/\[\^([^\]]+)\](?!:)/g, (_match, name) => {
-    if (!footnoteRefs[name]) {
-      footnoteRefs[name] = footnoteCounter++;
-    }
-    const num = footnoteRefs[name];
-    return `<sup class="footnote-ref"><a href="#footnote-${num}" id="footnote-ref-${num}">[${num}]</a></sup>`;
-  });
-  // --- END FOOTNOTES HANDLING ---
-
-  // Restore script blocks AFTER all other processing to prevent interference
-  // (This will be done at the end of the function)
-
-  // Process the rest of the markdown
-  markdown = markdown
-    // Headers - allow for leading whitespace and add anchor links
-    .replace(/^\s*###### (.*$)/gim, (_match, title) => {
-      const id = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-      return `<h6 id="${id}"><a href="#${id}" class="header-anchor">${title}</a></h6>`;
-    })
-    .replace(/^\s*##### (.*$)/gim, (_match, title) => {
-      const id = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-      return `<h5 id="${id}"><a href="#${id}" class="header-anchor">${title}</a></h5>`;
-    })
-    .replace(/^\s*#### (.*$)/gim, (_match, title) => {
-      const id = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-      return `<h4 id="${id}"><a href="#${id}" class="header-anchor">${title}</a></h4>`;
-    })
-    .replace(/^\s*### (.*$)/gim, (_match, title) => {
-      const id = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-      return `<h3 id="${id}"><a href="#${id}" class="header-anchor">${title}</a></h3>`;
-    })
-    .replace(/^\s*## (.*$)/gim, (_match, title) => {
-      const id = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-      return `<h2 id="${id}"><a href="#${id}" class="header-anchor">${title}</a></h2>`;
-    })
-    .replace(/^\s*# (.*$)/gim, (_match, title) => {
-      const id = title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
-      return `<h1 id="${id}"><a href="#${id}" class="header-anchor">${title}</a></h1>`;
-    })
-    // Bold
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    // Italic (both asterisk and underscore)
-    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-    .replace(/_(.*?)_/g, '<em>$1</em>')
-    // Strikethrough
-    .replace(/~~(.*?)~~/g, '<del>$1</del>')
-    // Inline code (but not inside code block placeholders)
-    .replace(/`([^`]+)`/g, '<code>$1</code>')
-    // Multi-line blockquotes (process before paragraph wrapping)
-    .replace(/((?:^\s*> .*$\n?)+)/gm, match => {
-      const lines = match.trim().split(/\r?\n/);
-      const content = lines
-        .map(line => line.replace(/^\s*> ?/, '')) // Remove > and leading spaces
-        .filter(line => line.trim() !== '') // Remove empty lines
-        .join(' ');
-      return `<blockquote>${content}</blockquote>`;
-    })
-    // Horizontal rules (---) - process before paragraph wrapping
-    .replace(/^[ ]*---[ ]*$/gm, '<hr>')
-    // Line breaks - be more selective about when to add <br> tags
-    .replace(/\n\n/g, '</p><p>')
-    // Only add <br> for single newlines that are not between list items or other block elements
-    .replace(
-      /(?<!<\/li>)\n(?!<[uo]l>|<li>|<\/[uo]l>|<dl>|<dt>|<dd>|<\/dl>|<table>|<thead>|<tbody>|<tr>|<th>|<td>|<\/table>|<\/thead>|<\/tbody>|<\/tr>|<\/th>|<\/td>|<div|<\/div>|<h[1-6]>|<\/h[1-6]>|<p>|<\/p>|<blockquote>|<\/blockquote>|<hr>|<pre>|<\/pre>|<code>|<\/code>|<strong>|<\/strong>|<em>|<\/em>|<del>|<\/del>|<a\b|<\/a>|<img\b|<\/img>|<abbr>|<\/abbr>|<sup>|<\/sup>|<span>|<\/span>)/g,
-      '<br>'
-    )
-    // Wrap in paragraphs (exclude HTML elements, blockquotes, and code block placeholders)
-    .replace(/^(?!<[^>]*>)(?!> )(?!@@CODEBLOCK\d+@@)(.*)$/gm, '<p>$1</p>')
-    // Clean up empty paragraphs
-    .replace(/<p><\/p>/g, '')
-    .replace(/<p><br><\/p>/g, '')
-    // Remove <br> tags from definition descriptions
-    .replace(/<dd>(.*?)<\/dd>/g, (_match, content) => {
-      return `<dd>${content.replace(/<br>/g, ' ')}</dd>`;
-    })
-    // Clean up <br> tags around definition list elements
-    .replace(/<br>\s*<dl>/g, '<dl>')
-    .replace(/<\/dl>\s*<br>/g, '</dl>')
-    .replace(/<br>\s*<dt>/g, '<dt>')
-    .replace(/<\/dt>\s*<br>/g, '</dt>')
-    .replace(/<br>\s*<dd>/g, '<dd>')
-    .replace(/<\/dd>\s*<br>/g, '</dd>')
-    // Remove <br> tags that are inside HTML elements
-    .replace(/(<[^>]+>)([^<]*?)<br>([^<]*?)(<\/[^>]+>)/g, '$1$2 $3$4')
-    // Additional cleanup for blog cards and other HTML structures
-    .replace(/<br>\s*<div class="blog-card">/g, '<div class="blog-card">')
-    .replace(/<\/div>\s*<br>/g, '</div>')
-    .replace(
-      /<br>\s*<div class="blog-card-header">/g,
-      '<div class="blog-card-header">'
-    )
-    .replace(
-      /<br>\s*<div class="blog-card-meta">/g,
-      '<div class="blog-card-meta">'
-    )
-    .replace(
-      /<br>\s*<div class="blog-card-tags">/g,
-      '<div class="blog-card-tags">'
-    )
-    .replace(
-      /<br>\s*<h3 class="blog-card-title">/g,
-      '<h3 class="blog-card-title">'
-    )
-    .replace(/<br>\s*<a class="blog-card-link">/g, '<a class="blog-card-link">')
-    .replace(
-      /<br>\s*<span class="blog-card-date">/g,
-      '<span class="blog-card-date">'
-    )
-    .replace(
-      /<br>\s*<span class="blog-card-author">/g,
-      '<span class="blog-card-author">'
-    )
-    .replace(
-      /<br>\s*<span class="blog-card-tag">/g,
-      '<span class="blog-card-tag">'
-    )
-    .replace(
-      /<br>\s*<p class="blog-card-excerpt">/g,
-      '<p class="blog-card-excerpt">'
-    )
-    // Remove <br> tags that appear between HTML elements
-    .replace(/>\s*<br>\s*</g, '> <')
-    // Remove <br> tags at the beginning or end of HTML elements
-    .replace(/<br>\s*>/g, '>')
-    .replace(/>\s*<br>/g, '>');
-
-  // Replace code block placeholders with simple pre/code blocks AFTER all other processing
-  markdown = markdown.replace(/@@CODEBLOCK(\d+)@@/g, (match, index) => {
-    const block = rawCodeBlocks[parseInt(index)];
-    if (!block) return match;
-
-    // Sanitize the code content to prevent XSS
-    const sanitizedCode = block.code
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#x27;');
-
-    // Normalize common language identifiers for Prism
-    const rawLang = block.lang.toLowerCase().trim();
-    const language = ((): string => {
-      switch (rawLang) {
-        case 'cs':
-        case 'c#':
-          return 'csharp';
-        case 'ts':
-          return 'typescript';
-        case 'js':
-          return 'javascript';
-        case 'yml':
-          return 'yaml';
-        default:
-          return rawLang || 'plaintext';
-      }
-    })();
-    const uniqueId = `code-${Date.now()}-${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
+// Check if file needs reprocessing
+async function needsReprocessing(
+  filePath: string,
+  hash: string,
+  outputPath: string
+): Promise<boolean> {
+  if (!config.optimization.build.cache.enabled) return true;
+  const cached = buildCache.entries[filePath];
+  // Entries written before meta and emitted files were cached can't be
+  // reused
+  if (!cached || !cached.meta || !cached.emittedFiles) return true;
+  if (cached.hash !== hash || cached.outputPath !== outputPath) return true;
 
-    return `<div class="code-block-container" data-language="${language}" id="${uniqueId}">
-            <div class="code-block-header">
-                <span class="language-label">${language}</span>
-                <button class="copy-button" type="button">Copy</button>
-            </div>
-            <pre><code class="language-${language}">${sanitizedCode}</code></pre>
-        </div>`;
-  });
+  try {
+    await Deno.stat(outputPath);
+    for (const path of cached.emittedFiles) await Deno.stat(path);
+    return false;
+  } catch {
+    // Output was deleted since the last build
+    return true;
+  }
+}
 
-  // Restore script blocks AFTER all other processing to prevent interference
-  markdown = markdown.replace(/__SCRIPT_BLOCK_(\d+)__/g, (match, index) => {
-    return scriptBlocks[parseInt(index)] || match;
-  });
+// Update cache after processing
+function updateCache(
+  filePath: string,
+  hash: string,
+  outputPath: string,
+  meta: Meta,
+  emittedFiles: string[]
+) {
+  buildCache.entries[filePath] = { hash, outputPath, meta, emittedFiles };
+}
 
-  // Handle custom HTML code blocks: {{htmlcode}} ... {{/htmlcode}} - AFTER all other processing
-  markdown = markdown.replace(
-    /\{\{htmlcode\}\}([\s\S]*?)\{\{\/htmlcode\}\}/g,
-    (_match, code) => {
-      return `<pre><code class=\"language-html\">${code
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')}</code></pre>`;
-    }
-  );
+// Optimized markdown to HTML conversion with consolidated regex operations
+// Image path served from the output assets, preferring an optimized WebP
+// copy when one exists
+function resolveImageSrc(src: string): string {
+  if (/^(?:https?:|data:)/.test(src)) return src;
+  const origSrc = src.startsWith('/assets/')
+    ? src
+    : `/assets/${src.replace(/^\.?\/?/, '')}`;
+  const webpSrc = origSrc.replace(/[#?].*$/, '').replace(/\.[^./]+$/, '.webp');
+  try {
+    const webpPath = join(config.outDir, webpSrc.replace(/^\//, ''));
+    if (Deno.statSync(webpPath).isFile) return webpSrc;
+  } catch {
+    // No WebP version, keep the original image
+  }
+  return origSrc;
+}
 
-  // Process existing HTML <img> tags (not already in <picture> elements) to add WebP support
-  // First, protect img tags that are already inside picture elements
-  const pictureImgPattern =
-    /<picture>[\s\S]*?<img\s+[^>]*?>[\s\S]*?<\/picture>/gi;
+// Rewrite <img> tags in raw HTML to asset paths, leaving <picture> alone
+function rewriteHtmlImages(html: string): string {
   const protectedImages: string[] = [];
-  markdown = markdown.replace(pictureImgPattern, match => {
+  html = html.replace(/<picture>[\s\S]*?<\/picture>/gi, match => {
     protectedImages.push(match);
     return `__PROTECTED_IMG_${protectedImages.length - 1}__`;
   });
-
-  // Now process remaining img tags
-  markdown = markdown.replace(/<img\s+([^>]*?)>/gi, (match, attrs) => {
-    // Extract src attribute from attrs (handle both single and double quotes, case insensitive)
+  html = html.replace(/<img\s+([^>]*?)>/gi, (match, attrs) => {
     const srcMatch = attrs.match(/src=["']([^"']+)["']/i);
-    if (!srcMatch) {
-      return match; // No src attribute, skip
-    }
-    const src = srcMatch[1];
+    if (!srcMatch) return match;
+    const src = resolveImageSrc(srcMatch[1]);
+    if (src === srcMatch[1]) return match;
+    return `<img ${attrs.replace(/src=["'][^"']+["']/i, `src="${src}"`)}>`;
+  });
+  return html.replace(
+    /__PROTECTED_IMG_(\d+)__/g,
+    (match, index) => protectedImages[parseInt(index)] || match
+  );
+}
 
-    // Skip external URLs and data URIs
-    if (
-      src.startsWith('http://') ||
-      src.startsWith('https://') ||
-      src.startsWith('data:')
-    ) {
-      return match;
-    }
+// Normalize common language identifiers for Prism
+function normalizeLanguage(lang: string | null): string {
+  const rawLang = (lang ?? '').toLowerCase().trim();
+  switch (rawLang) {
+    case 'cs':
+    case 'c#':
+      return 'csharp';
+    case 'ts':
+      return 'typescript';
+    case 'js':
+      return 'javascript';
+    case 'yml':
+      return 'yaml';
+    default:
+      return rawLang || 'plaintext';
+  }
+}
 
-    // Clean up src path
-    let origSrc = src;
-    if (!src.startsWith('/assets/')) {
-      origSrc = `/assets/${src.replace(/^\.?\/?/, '')}`;
+// Site markup on top of the CommonMark output: heading anchors, new tabs for
+// external links, asset image paths and the code block container
+const MARKDOWN_RENDERERS: NodeRenderers = {
+  heading(node, renderer) {
+    const id = toPlainText(node)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    const tag = `h${node.depth}`;
+    const title = renderer.renderChildren(node);
+    return `<${tag} id="${id}"><a href="#${id}" class="header-anchor">${title}</a></${tag}>\n`;
+  },
+  link(node, renderer) {
+    if (!/^(?:https?:)?\/\//i.test(node.url)) {
+      return renderer.renderDefault(node);
     }
+    const title = node.title ? ` title="${escapeHtml(node.title)}"` : '';
+    return `<a href="${escapeHtml(node.url)}"${title} target="_blank" rel="noopener noreferrer">${renderer.renderChildren(node)}</a>`;
+  },
+  image(node, renderer) {
+    return renderer.renderDefault({ ...node, url: resolveImageSrc(node.url) });
+  },
+  html(node) {
+    return rewriteHtmlImages(node.value);
+  },
+  table(node, renderer) {
+    return `<div class="table-responsive">${renderer.renderDefault(node)}</div>\n`;
+  },
+  math(node) {
+    return `<div class="math math-display">${renderMath(node.value, true)}</div>\n`;
+  },
+  inlineMath(node) {
+    return renderMath(node.value, node.display);
+  },
+  code(node) {
+    const language = normalizeLanguage(node.lang);
+    const meta = parseCodeMeta(node.meta);
+    const uniqueId = `code-${Date.now()}-${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
 
-    // Generate WebP path
-    let webpSrc = origSrc;
-    // Remove any query/hash from src for webp path
-    webpSrc = webpSrc.replace(/[#?].*$/, '');
-    webpSrc = webpSrc.replace(/\.[^.\/]+$/, '.webp');
+    // Only line options need every line wrapped in its own element
+    const withLines =
+      meta.showLineNumbers || meta.diff || meta.highlightLines.size > 0;
+    const code = withLines
+      ? highlightCodeLines(node.value, language, meta)
+      : highlightCode(node.value, language);
+    const title = meta.title
+      ? `<span class="code-block-title">${escapeHtml(meta.title)}</span>
+                `
+      : '';
 
-    // Check if WebP file exists in output assets
-    const webpPath = join(outDir, webpSrc.replace(/^\/assets\//, 'assets/'));
-    let webpExists = false;
-    try {
-      // Synchronous check for file existence
-      const stat = Deno.statSync(webpPath);
-      webpExists = stat.isFile;
-    } catch {
-      // File doesn't exist
-      webpExists = false;
-    }
+    return `<div class="code-block-container" data-language="${language}" id="${uniqueId}">
+            <div class="code-block-header">
+                ${title}<span class="language-label">${language}</span>
+                <button class="copy-button" type="button" aria-label="Copy code">Copy</button>
+                <span class="copy-status" role="status"></span>
+            </div>
+            <pre${withLines ? ' class="has-lines"' : ''}><code class="language-${language}">${code}</code></pre>
+        </div>\n`;
+  },
+};
 
-      // Replace with WebP directly if it exists, otherwise use original
-      if (webpExists) {
-        // Update src attribute to use WebP version
-        const updatedAttrs = attrs.replace(
-          /src=["'][^"']+["']/i,
-          `src="${webpSrc}"`
-        );
-        return `<img ${updatedAttrs}>`;
-      } else {
-      // If WebP doesn't exist, return original img tag with updated src if needed
-      if (origSrc !== src) {
-        const updatedAttrs = attrs.replace(
-          /src=["'][^"']+["']/i,
-          `src="${origSrc}"`
-        );
-        return `<img ${updatedAttrs}>`;
-      }
-      return match;
-    }
+// Render TeX to static HTML and MathML; invalid TeX is shown as its source
+// in red, with the error as tooltip
+function renderMath(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, {
+    displayMode,
+    output: 'htmlAndMathml',
+    throwOnError: false,
   });
+}
 
-  // Restore protected images
-  markdown = markdown.replace(/__PROTECTED_IMG_(\d+)__/g, (match, index) => {
-    return protectedImages[parseInt(index)] || match;
-  });
+// Whether a document tree contains any node of the given types, used to
+// only add stylesheets to the pages that need them
+function containsNode(tree: Root, ...types: MarkdownNode['type'][]): boolean {
+  let found = false;
+  for (const type of types) {
+    visit(tree, type, () => {
+      found = true;
+    });
+  }
+  return found;
+}
 
-  return markdown;
+// Render a document tree with the site's markup
+function treeToHtml(tree: Root): string {
+  return renderHtml(tree, MARKDOWN_RENDERERS);
 }
 
 interface PageData {
   content: string;
   meta: Meta;
   path: string;
+  hasMath: boolean;
+  hasCode: boolean;
 }
 
-interface NavItem {
-  title: string;
-  url: string;
-  date?: string;
-  children?: NavItem[];
-}
-
-// Default HTML template
+// Built-in `default` layout, with `head`, `content` and `scripts` slots
 const DEFAULT_TEMPLATE = `<!DOCTYPE html>
-<html lang="en">
+<html lang="{{lang}}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>{{title}}</title>
+    {{metaTags}}
     <link rel="icon" type="image/x-icon" href="/assets/favicon.ico">
     <link rel="shortcut icon" type="image/x-icon" href="/assets/favicon.ico">
     <link rel="stylesheet" href="/assets/styles.css">
     <link rel="preconnect" href="https://fonts.googleapis.com">
     <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
     <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap" rel="stylesheet">
-    <!-- KaTeX for math rendering -->
-    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css">
-    <script defer src="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.js"></script>
     <style>
         /* Back to Top Button */
         .back-to-top {
@@ -786,6 +815,7 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
             }
         }
     </style>
+    {{slot:head}}
    </head>
 <body>
     {{component:navbar}}
@@ -793,7 +823,7 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
     <div class="page">
         <main class="main">
             <div class="container">
-                {{content}}
+                {{slot:content}}
             </div>
         </main>
     </div>
@@ -894,55 +924,43 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
             });
         }
 
-        // Initialize syntax highlighting
-        document.addEventListener('DOMContentLoaded', function() {
-            if (typeof Prism !== 'undefined') {
-                Prism.highlightAll();
+        // Copy buttons of code blocks. Removed diff lines and diff markers
+        // are left out of the copied code; the status element announces the
+        // result to screen readers
+        document.addEventListener('click', async function(e) {
+            const button = e.target.closest('.code-block-container .copy-button');
+            if (!button) return;
+            const container = button.closest('.code-block-container');
+            const codeElement = container.querySelector('code');
+            if (!codeElement) return;
+
+            const code = codeElement.cloneNode(true);
+            code.querySelectorAll('.line-removed, .diff-marker').forEach(el => el.remove());
+            const textToCopy = code.textContent || '';
+
+            try {
+                await navigator.clipboard.writeText(textToCopy);
+            } catch (err) {
+                console.error('Failed to copy code:', err);
+                // Fallback for older browsers
+                const textArea = document.createElement('textarea');
+                textArea.value = textToCopy;
+                document.body.appendChild(textArea);
+                textArea.select();
+                document.execCommand('copy');
+                document.body.removeChild(textArea);
             }
-            
-            // Add copy button functionality
-            document.querySelectorAll('.copy-button').forEach(button => {
-                button.addEventListener('click', function() {
-                    const codeBlock = this.closest('.code-block-container');
-                    const codeElement = codeBlock.querySelector('code');
-                    
-                    if (codeElement) {
-                        // Get the raw text content (without HTML tags)
-                        const textToCopy = codeElement.textContent || codeElement.innerText;
-                        
-                        navigator.clipboard.writeText(textToCopy).then(() => {
-                            // Visual feedback
-                            const originalText = this.textContent;
-                            this.textContent = 'Copied!';
-                            this.classList.add('copied');
-                            
-                            setTimeout(() => {
-                                this.textContent = originalText;
-                                this.classList.remove('copied');
-                            }, 2000);
-                        }).catch(err => {
-                            console.error('Failed to copy code:', err);
-                            // Fallback for older browsers
-                            const textArea = document.createElement('textarea');
-                            textArea.value = textToCopy;
-                            document.body.appendChild(textArea);
-                            textArea.select();
-                            document.execCommand('copy');
-                            document.body.removeChild(textArea);
-                            
-                            // Visual feedback
-                            const originalText = this.textContent;
-                            this.textContent = 'Copied!';
-                            this.classList.add('copied');
-                            
-                            setTimeout(() => {
-                                this.textContent = originalText;
-                                this.classList.remove('copied');
-                            }, 2000);
-                        });
-                    }
-                });
-            });
+
+            // Visual and spoken feedback
+            const status = container.querySelector('.copy-status');
+            button.textContent = 'Copied!';
+            button.classList.add('copied');
+            if (status) status.textContent = 'Code copied to clipboard';
+            setTimeout(() => {
+                button.textContent = 'Copy';
+                button.classList.remove('copied');
+                if (status) status.textContent = '';
+            }, 2000);
         });
 
         // Header anchor functionality
@@ -997,9 +1015,9 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
         // Footnote functionality
         document.addEventListener('click', function(e) {
             // Handle footnote reference clicks (scroll down to footnote definition)
-            if (e.target.classList.contains('footnote-ref') || e.target.closest('.footnote-ref')) {
+            const link = e.target.closest('.footnote-ref a');
+            if (link) {
                 e.preventDefault();
-                const link = e.target.classList.contains('footnote-ref') ? e.target : e.target.closest('.footnote-ref');
                 const href = link.getAttribute('href');
                 if (!href) return;
                 const targetId = href.substring(1);
@@ -1020,9 +1038,10 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
             }
             
             // Handle back reference clicks (scroll back up to footnote reference)
-            if (e.target.classList.contains('footnote-backref')) {
+            const backref = e.target.closest('.footnote-backref');
+            if (backref) {
                 e.preventDefault();
-                const href = e.target.getAttribute('href');
+                const href = backref.getAttribute('href');
                 if (!href) return;
                 const targetId = href.substring(1);
                 const targetElement = document.getElementById(targetId);
@@ -1042,41 +1061,6 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
             }
         });
 
-        // Simple code block copy functionality
-        document.addEventListener('DOMContentLoaded', function() {
-            const codeBlocks = document.querySelectorAll('.code-block-container');
-            
-            codeBlocks.forEach((container) => {
-                const codeElement = container.querySelector('code');
-                const copyButton = container.querySelector('.copy-button');
-                
-                if (!codeElement || !copyButton) return;
-                
-                copyButton.addEventListener('click', async () => {
-                    try {
-                        await navigator.clipboard.writeText(codeElement.textContent || '');
-                        copyButton.textContent = 'Copied!';
-                        copyButton.classList.add('copied');
-                        setTimeout(() => {
-                            copyButton.textContent = 'Copy';
-                            copyButton.classList.remove('copied');
-                        }, 2000);
-                    } catch (err) {
-                        console.error('Failed to copy code:', err);
-                        // Fallback for older browsers
-                        const textArea = document.createElement('textarea');
-                        textArea.value = codeElement.textContent || '';
-                        document.body.appendChild(textArea);
-                        textArea.select();
-                        document.execCommand('copy');
-                        document.body.removeChild(textArea);
-                        copyButton.textContent = 'Copied!';
-                        setTimeout(() => copyButton.textContent = 'Copy', 2000);
-                    }
-                });
-            });
-        });
-
         // Back to Top Button
         (function() {
             const button = document.createElement('button');
@@ -1121,14 +1105,14 @@ const DEFAULT_TEMPLATE = `<!DOCTYPE html>
             checkScrollPosition();
         })();
 </script>
+    {{slot:scripts}}
     </body>
     </html>`;
 
-// Component placeholder and defaults
-const NAVBAR_COMPONENT_PLACEHOLDER = '{{component:navbar}}';
+// Built-in components, used when componentsDir has no file for them
 const DEFAULT_NAVBAR_HTML = `<nav class="navbar">
         <div class="navbar-container">
-            <a href="/" class="navbar-brand"><picture><source srcset="/assets/nemic-logos/logo.webp" type="image/webp"><img src="/assets/nemic-logos/logo.png" alt="Logo" class="navbar-logo"></picture><span class="navbar-brand-text">Nergy's Blog</span></a>
+            <a href="/" class="navbar-brand">{{logo}}<span class="navbar-brand-text">{{siteName}}</span></a>
             <button class="mobile-menu-toggle" id="mobile-menu-toggle" aria-label="Toggle mobile menu">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
                     <line x1="3" y1="6" x2="21" y2="6"></line>
@@ -1150,19 +1134,15 @@ const DEFAULT_NAVBAR_HTML = `<nav class="navbar">
         </div>
     </nav>`;
 
-async function loadComponentHtml(name: string): Promise<string> {
-  try {
-    const candidatePath = join(componentsDir, `${name}.html`);
-    const content = await Deno.readTextFile(candidatePath);
-    return content;
-  } catch {
-    switch (name) {
-      case 'navbar':
-        return DEFAULT_NAVBAR_HTML;
-      default:
-        return '';
-    }
-  }
+// How {{component:...}} directives in layouts and content are rendered
+function getComponentOptions(): ComponentOptions {
+  return {
+    dir: config.componentsDir,
+    renderMarkdown: markdown => treeToHtml(parseMarkdown(markdown)),
+    fallbacks: { navbar: DEFAULT_NAVBAR_HTML },
+    // Key .ts imports by content so edits aren't served from the module cache
+    version: buildCache.componentsHash,
+  };
 }
 
 // Process TOC marker and replace with dynamic content cards
@@ -1176,7 +1156,7 @@ async function processTOCMarker(
   }
 
   // Extract directory from file path
-  const relativePath = relative(contentDir, filePath);
+  const relativePath = relative(config.contentDir, filePath);
   const directory = dirname(relativePath);
 
   // Only process TOC for index.md files in subdirectories
@@ -1185,7 +1165,7 @@ async function processTOCMarker(
   }
 
   try {
-    const targetDir = join(contentDir, directory);
+    const targetDir = join(config.contentDir, directory);
     const posts: Array<{
       title: string;
       date: string;
@@ -1205,25 +1185,19 @@ async function processTOCMarker(
       ) {
         const entryPath = join(targetDir, entry.name);
         const content = await Deno.readTextFile(entryPath);
-        const meta = extractMetadata(content);
+        const { meta, body: markdownContent } = parseFrontmatter(content);
+        if (!isPublished(meta)) continue;
 
         // Extract excerpt (first paragraph after frontmatter)
-        let excerpt = '';
-        if (content.startsWith('---')) {
-          const endIndex = content.indexOf('---', 3);
-          if (endIndex !== -1) {
-            const markdownContent = content.substring(endIndex + 3).trim();
-            const firstParagraph = markdownContent.split('\n\n')[0];
-            // Remove markdown formatting for excerpt
-            excerpt =
-              firstParagraph
-                .replace(/^#+\s*/, '') // Remove headers
-                .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-                .replace(/\*(.*?)\*/g, '$1') // Remove italic
-                .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links
-                .substring(0, 150) + (firstParagraph.length > 150 ? '...' : '');
-          }
-        }
+        const firstParagraph = markdownContent.split('\n\n')[0];
+        // Remove markdown formatting for excerpt
+        const excerpt =
+          firstParagraph
+            .replace(/^#+\s*/, '') // Remove headers
+            .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
+            .replace(/\*(.*?)\*/g, '$1') // Remove italic
+            .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links
+            .substring(0, 150) + (firstParagraph.length > 150 ? '...' : '');
 
         const filename = basename(entry.name, '.md');
         posts.push({
@@ -1331,8 +1305,9 @@ async function processTOCMarker(
         .join('');
     }
 
-    // Replace marker with generated cards
-    return content.replace(marker, cardsHTML);
+    // Replace marker with generated cards. Raw HTML blocks end at a blank
+    // line, so drop the empty lines left by missing fields.
+    return content.replace(marker, cardsHTML.replace(/\n[ \t]*(?=\n)/g, ''));
   } catch (error) {
     console.error(`❌ Error processing TOC marker for ${filePath}:`, error);
     return content.replace(
@@ -1342,194 +1317,311 @@ async function processTOCMarker(
   }
 }
 
-// Process TypeScript template if it exists
-async function processTemplate(
-  mdPath: string,
+function isRemoteTemplate(): boolean {
+  return (
+    config.template.startsWith('http://') ||
+    config.template.startsWith('https://')
+  );
+}
+
+// Local filesystem path of the template, or null for remote templates
+function getTemplateFilePath(): string | null {
+  if (isRemoteTemplate()) return null;
+  if (config.template.startsWith('file://')) {
+    return fromFileUrl(config.template);
+  }
+  return resolve(config.template);
+}
+
+type TemplateRender = (
   content: string,
-  meta: Meta
-): Promise<string> {
-  try {
-    // Convert relative path to absolute file:// URL for import
-    let templateUrl: string;
-    if (
-      templatePath.startsWith('http://') ||
-      templatePath.startsWith('https://') ||
-      templatePath.startsWith('file://')
-    ) {
-      templateUrl = templatePath;
-    } else {
-      // Resolve relative path to absolute path
-      const absolutePath = join(Deno.cwd(), templatePath.replace(/^\.\//, ''));
-      templateUrl = `file://${absolutePath}`;
-    }
+  context: RenderContext
+) => string | Promise<string>;
 
-    // Dynamically import the template module
-    const templateModule = await import(templateUrl);
+// Render function of the template, imported once per build; null when there
+// is no template or it failed to load
+let templateRender: TemplateRender | null = null;
 
-    if (templateModule.render && typeof templateModule.render === 'function') {
-      return templateModule.render(content, {
-        meta,
-        path: mdPath,
-      });
+// Pages whose template render failed in the current build; they aren't
+// cached so the error is reported again until it is fixed
+const templateFailures = new Set<string>();
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return error.stack ?? error.message;
+  return String(error);
+}
+
+// Import the template for the current build. A missing local template just
+// means pages are rendered without one; a broken one is reported, and fails
+// the build in strict mode.
+async function loadTemplate(): Promise<void> {
+  templateRender = null;
+  const templateFile = getTemplateFilePath();
+  if (templateFile && !(await fileExists(templateFile))) {
+    console.log(`ℹ️  No template at ${templateFile}, rendering without one`);
+    return;
+  }
+
+  // Convert relative path to absolute file:// URL for import
+  let templateUrl = templateFile
+    ? toFileUrl(templateFile).href
+    : config.template;
+  // Key the import by content so edits aren't served from the module cache
+  if (templateFile && buildCache.templateHash) {
+    templateUrl += `?v=${buildCache.templateHash}`;
+  }
+
+  let templateModule;
+  try {
+    templateModule = await import(templateUrl);
+  } catch (error) {
+    const message = `Could not load template ${config.template}`;
+    if (config.strict) {
+      throw new Error(
+        `Astrodon build failed: ${message} (strict mode)\n` +
+          describeError(error),
+        { cause: error }
+      );
     }
+    warn(`${message}, rendering without it:\n${describeError(error)}`);
+    return;
+  }
 
-    // If render function doesn't exist, return original content
-    return content;
-  } catch {
-    // If template file doesn't exist or fails, return original content
-    return content;
+  if (typeof templateModule.render !== 'function') {
+    warn(`Template ${config.template} does not export a render function`);
+    return;
   }
+  templateRender = templateModule.render;
 }
 
-// Process markdown file with caching
-async function processMarkdownFile(filePath: string): Promise<PageData> {
-  const content = await Deno.readTextFile(filePath);
+// Render a page with the template. A failing render is reported with the
+// template, the page and the stack trace; the page keeps its plain content,
+// or fails in strict mode.
+async function processTemplate(
+  page: PageContext,
+  content: string,
+  tree: Root,
+  renderHtml: (tree: Root) => string,
+  site: SiteData
+): Promise<string> {
+  if (!templateRender) return content;
 
-  // Check cache first
-  if (!(await needsReprocessing(filePath, content))) {
-    const cached = fileCache.get(filePath);
-    if (cached) {
-      console.log(`⚡ Using cached result for ${filePath}`);
-      buildMetrics.cachedFiles++;
-      // We still need to parse metadata for the return value
-      const meta = extractMetadata(content);
-      return {
-        content: cached.content,
-        meta,
-        path: filePath,
-      };
-    }
+  try {
+    return await templateRender(content, {
+      meta: page.meta,
+      path: page.sourcePath,
+      url: page.url,
+      outputPath: page.outputPath,
+      ast: tree,
+      renderHtml,
+      site,
+    });
+  } catch (error) {
+    templateFailures.add(page.sourcePath);
+    const message =
+      `Template ${config.template} failed rendering ${page.sourcePath}:\n` +
+      describeError(error);
+    if (config.strict) throw new Error(message, { cause: error });
+    warn(message);
+    return content;
   }
+}
 
+// Process markdown file
+async function processMarkdownFile(
+  filePath: string,
+  content: string,
+  page: PageContext,
+  site: SiteData
+): Promise<PageData> {
   // Extract frontmatter if present
-  const meta = extractMetadata(content);
-  let markdownContent = content;
+  const frontmatter = parseFrontmatter(content);
+  const meta = await runTransformHook(
+    'transformFrontmatter',
+    frontmatter.meta,
+    page
+  );
+  page.meta = meta;
 
-  if (content.startsWith('---')) {
-    const endIndex = content.indexOf('---', 3);
-    if (endIndex !== -1) {
-      markdownContent = content.substring(endIndex + 3).trim();
-    }
-  }
+  const markdownContent = await runTransformHook(
+    'transformMarkdown',
+    frontmatter.body,
+    page
+  );
 
-  // Process TOC marker if present
-  const tocProcessedContent = await processTOCMarker(markdownContent, filePath);
+  // Inline {{partial:...}} markdown, then {{include:...}} source files as
+  // code blocks
+  const { markdown: partialContent } = await expandPartials(
+    markdownContent,
+    filePath,
+    getPartialsDir()
+  );
+  const includedContent = await expandIncludes(partialContent, filePath);
 
-  // Parse markdown to HTML (after TOC processing)
-  const htmlContent = parseMarkdown(tocProcessedContent);
+  // Process TOC marker if present
+  const tocProcessedContent = await processTOCMarker(includedContent, filePath);
+
+  // Render {{component:...}} directives; they sit in the markdown as
+  // placeholders until the page is rendered
+  const { markdown: componentContent, components } =
+    await renderMarkdownComponents(tocProcessedContent, getComponentOptions());
+  const renderHtml = (tree: Root) =>
+    insertComponents(treeToHtml(tree), components);
+
+  // Parse markdown into a document tree (after TOC processing)
+  const tree = await runTransformHook(
+    'transformAst',
+    parseMarkdown(componentContent),
+    page
+  );
+  const htmlContent = renderHtml(tree);
 
   // Process with TypeScript template if available
-  const processedContent = await processTemplate(filePath, htmlContent, meta);
-
-  // Update cache
-  await updateCache(filePath, content, processedContent);
+  const processedContent = await runTransformHook(
+    'transformHtml',
+    await processTemplate(page, htmlContent, tree, renderHtml, site),
+    page
+  );
 
   return {
     content: processedContent,
     meta,
     path: filePath,
+    hasMath: containsNode(tree, 'math', 'inlineMath'),
+    hasCode: containsNode(tree, 'code'),
   };
 }
 
-// Extract metadata from markdown content
-function extractMetadata(content: string): Meta {
-  const meta: Meta = {};
-
-  if (content.startsWith('---')) {
-    const endIndex = content.indexOf('---', 3);
-    if (endIndex !== -1) {
-      const frontmatter = content.substring(3, endIndex).trim();
-
-      // Simple YAML-like parsing
-      for (const line of frontmatter.split('\n')) {
-        const colonIndex = line.indexOf(':');
-        if (colonIndex !== -1) {
-          const key = line.substring(0, colonIndex).trim();
-          const value = line.substring(colonIndex + 1).trim();
-
-          // Handle YAML arrays like [tag1, tag2]
-          if (value.startsWith('[') && value.endsWith(']')) {
-            const arrayContent = value.substring(1, value.length - 1);
-            const arrayItems = arrayContent.split(',').map(item => item.trim());
-            meta[key] = arrayItems;
-          } else {
-            meta[key] = value;
-          }
-        }
-      }
+// Markup of the site logo, with its WebP variant when image optimization
+// produced one; empty without a logo
+function getLogoHtml(): string {
+  const { logo } = config.site;
+  if (!logo) return '';
+  const img = `<img src="${escapeHtml(logo)}" alt="" class="navbar-logo">`;
+
+  const webp = logo.replace(/\.(png|jpe?g)$/i, '.webp');
+  try {
+    if (webp !== logo && Deno.statSync(join(config.outDir, webp)).isFile) {
+      return `<picture><source srcset="${escapeHtml(webp)}" type="image/webp">${img}</picture>`;
     }
+  } catch {
+    // No WebP variant
   }
+  return img;
+}
 
-  return meta;
+// Description, author and canonical URL tags of a page, for what is known
+function getMetaTags(page: PageData, description: string): string {
+  const tags: string[] = [];
+  if (description) {
+    tags.push(`<meta name="description" content="${escapeHtml(description)}">`);
+  }
+  const author = page.meta.author ?? config.site.author;
+  if (typeof author === 'string' && author) {
+    tags.push(`<meta name="author" content="${escapeHtml(author)}">`);
+  }
+  if (config.site.baseUrl) {
+    const url =
+      config.site.baseUrl.replace(/\/+$/, '') +
+      getPagePaths(page.path).currentPath;
+    tags.push(`<link rel="canonical" href="${escapeHtml(url)}">`);
+  }
+  return tags.join('\n    ');
 }
 
-// Helper function to check if WebP logo exists
-function checkWebPLogoExists(): boolean {
-  try {
-    const webpPath = join(outDir, 'assets/nemic-logos/logo.webp');
-    const stat = Deno.statSync(webpPath);
-    return stat.isFile;
-  } catch {
-    return false;
+// Where page layouts come from; `default` falls back to the built-in layout
+function getLayoutOptions(): LayoutOptions {
+  return {
+    dir: config.layoutsDir,
+    fallbacks: { default: DEFAULT_TEMPLATE },
+  };
+}
+
+// The layout of a page: its `layout` frontmatter, the layout named after its
+// directory (or the closest parent's), or `default`
+async function getPageLayout(page: PageData): Promise<string> {
+  if (page.meta.layout !== undefined) {
+    if (typeof page.meta.layout !== 'string') {
+      throw new Error(`"layout" must be a layout name`);
+    }
+    return page.meta.layout;
   }
+  const directory = dirname(relative(config.contentDir, page.path));
+  return (
+    (await findDirectoryLayout(directory, getLayoutOptions())) ?? 'default'
+  );
 }
 
-// Generate HTML from template
+// Marks drafts in builds with `includeDrafts`; styled inline so it shows in
+// custom layouts too
+const DRAFT_BANNER = `<div class="draft-banner" role="note" style="margin: 0 0 1.5rem; padding: 0.5rem 1rem; border-radius: 6px; background: #fef3c7; color: #92400e; font-weight: 600;">Draft: this page is not published</div>
+`;
+
+// Render a page into its layout
 async function generateHTML(
-  content: string,
-  meta: Meta,
+  page: PageData,
   navigation: string
 ): Promise<string> {
-  let html = DEFAULT_TEMPLATE;
-
-  // Inject components (navbar)
-  const navbarHtml = await loadComponentHtml('navbar');
-  html = html.replace(NAVBAR_COMPONENT_PLACEHOLDER, navbarHtml);
-
-  // Check if WebP logo exists and replace the logo HTML accordingly
-  const webpLogoExists = checkWebPLogoExists();
-  if (webpLogoExists) {
-    // WebP exists, use picture element with WebP source
-    html = html.replace(
-      '<picture><source srcset="/assets/nemic-logos/logo.webp" type="image/webp"><img src="/assets/nemic-logos/logo.png" alt="Logo" class="navbar-logo"></picture>',
-      '<picture><source srcset="/assets/nemic-logos/logo.webp" type="image/webp"><img src="/assets/nemic-logos/logo.png" alt="Logo" class="navbar-logo"></picture>'
-    );
-  } else {
-    // WebP doesn't exist, use just the original image
-    html = html.replace(
-      '<picture><source srcset="/assets/nemic-logos/logo.webp" type="image/webp"><img src="/assets/nemic-logos/logo.png" alt="Logo" class="navbar-logo"><span class="navbar-brand-text">Nergy\'s Blog</span>',
-      '<img src="/assets/nemic-logos/logo.png" alt="Logo" class="navbar-logo"><span class="navbar-brand-text">Nergy\'s Blog</span>'
-    );
-  }
-
-  // Replace template variables
-  html = html.replace('{{title}}', meta.title + ' | Nergy' || "Nergy's Blog");
-  html = html.replace('{{content}}', content);
-  html = html.replace('{{navigation}}', navigation);
+  const { content, meta } = page;
+  let html = await loadLayout(await getPageLayout(page), getLayoutOptions());
+
+  // Render the layout's components (the navbar and any others it uses)
+  html = await renderComponents(html, getComponentOptions());
+
+  // Replace template variables (with functions, so `$` in the content is
+  // not read as a replacement pattern), in one pass so placeholders in the
+  // content are left alone
+  const { site } = config;
+  const title = meta.title
+    ? (site.titleTemplate ?? `%s | ${site.name}`).replace('%s', () =>
+        String(meta.title)
+      )
+    : site.name;
+  const description = String(meta.description ?? site.description ?? '');
+  const variables: Record<string, string> = {
+    title: escapeHtml(title),
+    content: isDraft(meta) ? DRAFT_BANNER + content : content,
+    navigation,
+    lang: escapeHtml(String(meta.lang ?? site.language)),
+    siteName: escapeHtml(site.name),
+    logo: getLogoHtml(),
+    description: escapeHtml(description),
+    metaTags: getMetaTags(page, description),
+  };
+  html = html.replace(
+    /\{\{(title|content|navigation|lang|siteName|logo|description|metaTags)\}\}/g,
+    (_placeholder, name: string) => variables[name]
+  );
 
-  // Add Prism.js scripts for syntax highlighting
-  const additionalScripts = `
-    <!-- Prism.js for syntax highlighting -->
-    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/prismjs@1.29.0/themes/prism.min.css">
-    <script defer src="https://cdn.jsdelivr.net/npm/prismjs@1.29.0/components/prism-core.min.js"></script>
-    <script defer src="https://cdn.jsdelivr.net/npm/prismjs@1.29.0/plugins/autoloader/prism-autoloader.min.js"></script>
-    `;
+  // Code and math are rendered at build time and only need their stylesheets
+  let additionalStyles = '';
+  if (page.hasCode) {
+    additionalStyles += `    <link rel="stylesheet" href="/${HIGHLIGHT_CSS_PATH}">
+`;
+  }
+  if (page.hasMath) {
+    additionalStyles += `    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css">
+`;
+  }
 
-  html = html.replace('</head>', additionalScripts + '</head>');
+  html = html.replace('</head>', additionalStyles + '</head>');
 
   return html;
 }
 
 // Generate navigation from routes directory
 async function generateNavigation(): Promise<NavItem[]> {
-  const routesDir = contentDir;
+  const routesDir = config.contentDir;
   const navItems: NavItem[] = [];
 
   try {
     for await (const entry of Deno.readDir(routesDir)) {
       if (entry.isFile && entry.name.endsWith('.md')) {
         const fileName = basename(entry.name, '.md');
-        if (fileName !== 'index') {
+        if (
+          fileName !== 'index' &&
+          (await isPublishedFile(join(routesDir, entry.name)))
+        ) {
           navItems.push({
             title:
               fileName.charAt(0).toUpperCase() +
@@ -1537,7 +1629,7 @@ async function generateNavigation(): Promise<NavItem[]> {
             url: `/${fileName}`,
           });
         }
-      } else if (entry.isDirectory) {
+      } else if (entry.isDirectory && !isPartialsDir(entry.name)) {
         const folderName = entry.name;
         const children: NavItem[] = [];
 
@@ -1563,6 +1655,7 @@ async function generateNavigation(): Promise<NavItem[]> {
               try {
                 const content = await Deno.readTextFile(filePath);
                 const meta = extractMetadata(content);
+                if (!isPublished(meta)) continue;
                 if (meta.date) {
                   date = meta.date;
                 }
@@ -1672,7 +1765,12 @@ function generateNavigationHTML(
 
 // Copy assets (non-image files)
 async function copyAssets(): Promise<void> {
-  const distAssetsDir = join(outDir, 'assets');
+  const distAssetsDir = join(config.outDir, 'assets');
+  const copiedAssets: Array<{
+    sourcePath: string;
+    outputPath: string;
+    relativePath: string;
+  }> = [];
 
   try {
     await ensureDir(distAssetsDir);
@@ -1686,39 +1784,86 @@ async function copyAssets(): Promise<void> {
           const destPath = join(distAssetsDir, relativePath);
 
           if (entry.isFile) {
-            await ensureDir(dirname(destPath));
-            await copy(sourcePath, destPath, { overwrite: true });
+            try {
+              await ensureDir(dirname(destPath));
+              await copy(sourcePath, destPath, { overwrite: true });
+            } catch (error) {
+              console.error(`❌ Could not copy ${sourcePath}:`, error);
+              recordError('asset', sourcePath, error);
+              continue;
+            }
+            trackOutput(destPath);
             console.log(`📁 Copied ${relativePath}`);
+            copiedAssets.push({
+              sourcePath,
+              outputPath: destPath,
+              relativePath,
+            });
           } else if (entry.isDirectory) {
             await ensureDir(destPath);
             await copyAssetRecursively(sourcePath, relativePath);
           }
         }
-      } catch {
-        console.log(`ℹ️  Could not read directory ${dir}`);
+      } catch (error) {
+        // Sites without an assets directory are fine
+        const missing = error instanceof Deno.errors.NotFound;
+        if (dir === config.assetsDir && missing) {
+          console.log('ℹ️  No assets directory found');
+          return;
+        }
+        console.error(`❌ Could not read directory ${dir}:`, error);
+        recordError('asset', dir, error);
       }
     }
 
-    await copyAssetRecursively(assetsDir);
+    await copyAssetRecursively(config.assetsDir);
+
+    // Ship the highlighting theme unless the site brings its own
+    if (!(await fileExists(join(config.assetsDir, 'highlight.css')))) {
+      await Deno.writeTextFile(
+        join(config.outDir, HIGHLIGHT_CSS_PATH),
+        HIGHLIGHT_CSS
+      );
+      trackOutput(join(config.outDir, HIGHLIGHT_CSS_PATH));
+    }
     console.log('✅ All assets copied to dist/assets/');
-  } catch {
-    console.log('ℹ️  No assets directory found');
+  } catch (error) {
+    console.error(`❌ Could not copy assets to ${distAssetsDir}:`, error);
+    recordError('asset', distAssetsDir, error);
   }
 
   // Always copy favicon.ico to dist root
   try {
-    await copy(join(assetsDir, 'favicon.ico'), join(outDir, 'favicon.ico'), {
-      overwrite: true,
-    });
+    await copy(
+      join(config.assetsDir, 'favicon.ico'),
+      join(config.outDir, 'favicon.ico'),
+      { overwrite: true }
+    );
+    trackOutput(join(config.outDir, 'favicon.ico'));
     console.log('✅ favicon.ico copied to dist/');
-  } catch {
+  } catch (error) {
     // Ignore if not present
+    if (!(error instanceof Deno.errors.NotFound)) {
+      recordError('asset', join(config.assetsDir, 'favicon.ico'), error);
+    }
+  }
+
+  // Run asset hooks outside the copy loop so plugin errors aren't swallowed
+  for (const asset of copiedAssets) {
+    for (const plugin of plugins) {
+      if (!plugin.onAsset) continue;
+      try {
+        await plugin.onAsset({ ...asset, config, emitFile });
+      } catch (error) {
+        throw pluginError(plugin, 'onAsset', error);
+      }
+    }
   }
 }
 
 // Optimize images to WebP format using optimizt
 async function optimizeImages(): Promise<void> {
-  const distAssetsDir = join(outDir, 'assets');
+  const distAssetsDir = join(config.outDir, 'assets');
 
   // Find all image files recursively
   const imageFiles: Array<{ fullPath: string; relativePath: string }> = [];
@@ -1731,9 +1876,7 @@ async function optimizeImages(): Promise<void> {
 
         if (entry.isFile) {
           const ext = extname(entry.name).toLowerCase();
-          if (
-            ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff'].includes(ext)
-          ) {
+          if (IMAGE_EXTENSIONS.includes(ext)) {
             imageFiles.push({ fullPath, relativePath });
           }
         } else if (entry.isDirectory) {
@@ -1747,13 +1890,21 @@ async function optimizeImages(): Promise<void> {
 
   try {
     await ensureDir(distAssetsDir);
-    await findImages(assetsDir);
+    await findImages(config.assetsDir);
 
     if (imageFiles.length === 0) {
       console.log('ℹ️  No image files found to optimize');
       return;
     }
 
+    // WebP variants from earlier builds stay valid even when optimizt is
+    // missing this time
+    for (const { relativePath } of imageFiles) {
+      trackOutput(
+        join(distAssetsDir, relativePath.replace(/\.[^.]+$/, '.webp'))
+      );
+    }
+
     console.log(`🖼️  Found ${imageFiles.length} images to optimize...`);
 
     // Check if optimizt is available
@@ -1771,7 +1922,7 @@ async function optimizeImages(): Promise<void> {
     }
 
     if (!optimiztAvailable) {
-      console.log('⚠️  optimizt not found, skipping webp optimization');
+      warn('optimizt not found, skipping webp optimization');
       return;
     }
 
@@ -1863,6 +2014,8 @@ function startBuildTimer() {
 }
 
 function logBuildMetrics() {
+  const { monitoring } = config.optimization.build;
+  if (!monitoring.enabled) return;
   const totalTime = performance.now() - buildMetrics.startTime;
   const avgProcessingTime =
     buildMetrics.processedFiles > 0
@@ -1879,47 +2032,103 @@ function logBuildMetrics() {
   console.log(`🔄 Processed files: ${buildMetrics.processedFiles}`);
   console.log(`📈 Average processing time: ${avgProcessingTime.toFixed(2)}ms`);
 
-  // Show slowest files
-  if (buildMetrics.fileProcessingTimes.size > 0) {
-    const sortedFiles = Array.from(buildMetrics.fileProcessingTimes.entries())
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 3);
+  // Warn about files slower than the configured threshold, slowest first
+  if (monitoring.logSlowFiles) {
+    const slowFiles = Array.from(buildMetrics.fileProcessingTimes.entries())
+      .filter(([, time]) => time > monitoring.slowFileThreshold)
+      .sort(([, a], [, b]) => b - a);
 
-    console.log('\n🐌 Slowest files:');
-    sortedFiles.forEach(([file, time]) => {
-      console.log(`  ${file}: ${time.toFixed(2)}ms`);
-    });
+    for (const [file, time] of slowFiles) {
+      warn(
+        `Slow file: ${file} took ${time.toFixed(2)}ms ` +
+          `(threshold ${monitoring.slowFileThreshold}ms)`
+      );
+    }
   }
 }
 
-// Main build function
-async function build(): Promise<void> {
-  console.log('🚀 Starting build...');
-  startBuildTimer();
+// Find all markdown files in the content directory (including subdirectories)
+// Directories starting with `_`, like `_partials`, hold markdown that is
+// included into pages rather than pages of their own
+function isPartialsDir(name: string): boolean {
+  return name.startsWith('_');
+}
 
-  // Ensure dist directory exists
-  await ensureDir(outDir);
+// Default directory of {{partial:...}} paths
+function getPartialsDir(): string {
+  return resolve(config.contentDir, '_partials');
+}
 
-  // Generate navigation
-  console.log('🧭 Generating navigation...');
-  const navItems = await generateNavigation();
-  const navigationHTML = generateNavigationHTML(navItems);
-  console.log('Navigation items:', navItems);
-  console.log('Navigation HTML:', navigationHTML);
+// Drafts (`draft: true` frontmatter) are left out of the site unless
+// `includeDrafts` is set
+function isDraft(meta: Meta): boolean {
+  return meta.draft === true;
+}
 
-  // Find all markdown files in routes (including subdirectories)
-  const routesDir = contentDir;
+// Timestamp a page goes live: its `publishDate`, or else its `date`; null
+// without a valid one
+function getPublishTime(meta: Meta): number | null {
+  const value = meta.publishDate ?? meta.date;
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+// Pages dated after `now` are scheduled, and left out until a later build
+function isScheduled(meta: Meta): boolean {
+  const time = getPublishTime(meta);
+  return time !== null && time > config.now.getTime();
+}
+
+// Whether a page with this frontmatter is part of the site
+function isPublished(meta: Meta): boolean {
+  return !isScheduled(meta) && (config.includeDrafts || !isDraft(meta));
+}
+
+// Frontmatter of a markdown file, or null when it can't be read or parsed
+async function readPageMeta(filePath: string): Promise<Meta | null> {
+  try {
+    return parseFrontmatter(await Deno.readTextFile(filePath)).meta;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a markdown file is built as a page of the site
+async function isPublishedFile(filePath: string): Promise<boolean> {
+  const meta = await readPageMeta(filePath);
+  // Unreadable pages or invalid frontmatter fail when the page is built
+  return meta === null || isPublished(meta);
+}
+
+// Scheduled pages found by the last scan, for the next publish time
+let scheduledPages: Array<{ filePath: string; time: number }> = [];
+
+// Whether `now` was passed to build(); otherwise each rebuild publishes
+// against the current time
+let nowIsFixed = false;
+
+// Find the markdown files of the published pages
+async function scanMarkdownFiles(): Promise<string[]> {
   const markdownFiles: string[] = [];
+  scheduledPages = [];
 
-  async function scanDirectory(dir: string, basePath: string = '') {
+  async function scanDirectory(dir: string) {
     try {
       for await (const entry of Deno.readDir(dir)) {
+        const path = join(dir, entry.name);
         if (entry.isFile && entry.name.endsWith('.md')) {
-          markdownFiles.push(join(dir, entry.name));
-        } else if (entry.isDirectory) {
-          const subDir = join(dir, entry.name);
-          const subBasePath = join(basePath, entry.name);
-          await scanDirectory(subDir, subBasePath);
+          const meta = await readPageMeta(path);
+          if (meta === null || isPublished(meta)) {
+            markdownFiles.push(path);
+          } else if (isScheduled(meta) && !isDraft(meta)) {
+            scheduledPages.push({
+              filePath: path,
+              time: getPublishTime(meta)!,
+            });
+          }
+        } else if (entry.isDirectory && !isPartialsDir(entry.name)) {
+          await scanDirectory(path);
         }
       }
     } catch {
@@ -1927,149 +2136,908 @@ async function build(): Promise<void> {
     }
   }
 
+  await scanDirectory(config.contentDir);
+  return markdownFiles;
+}
+
+// When the next scheduled page goes live, or null if none is scheduled
+function getNextPublishDate(): Date | null {
+  if (scheduledPages.length === 0) return null;
+  return new Date(Math.min(...scheduledPages.map(page => page.time)));
+}
+
+// Determine the URL path (for active navigation) and output file of a page
+function getPagePaths(filePath: string): {
+  currentPath: string;
+  outputPath: string;
+} {
+  const fileName = basename(filePath, '.md');
+  const relativePath = relative(config.contentDir, filePath).replace(
+    '.md',
+    ''
+  );
+
+  if (fileName === 'index') {
+    if (relativePath === 'index') {
+      return {
+        currentPath: '/',
+        outputPath: join(config.outDir, 'index.html'),
+      };
+    }
+    // index.md in a subdirectory
+    const dirName = dirname(relativePath);
+    return {
+      currentPath: `/${dirName}`,
+      outputPath: join(config.outDir, dirName, 'index.html'),
+    };
+  }
+
+  if (relativePath === fileName) {
+    // Top-level file
+    return {
+      currentPath: `/${fileName}`,
+      outputPath: join(config.outDir, `${fileName}.html`),
+    };
+  }
+
+  // File in subdirectory
+  return {
+    currentPath: `/${relativePath}`,
+    outputPath: join(config.outDir, `${relativePath}.html`),
+  };
+}
+
+// Extra files written by plugins during the current build
+let emittedFiles: string[] = [];
+
+// Write a plugin-provided file into outDir, refusing paths that escape it
+async function emitFile(
+  path: string,
+  contents: string | Uint8Array
+): Promise<void> {
+  const outputPath = resolve(config.outDir, path);
+  const relativePath = relative(resolve(config.outDir), outputPath);
+  if (
+    relativePath === '' ||
+    relativePath.startsWith('..') ||
+    isAbsolute(relativePath)
+  ) {
+    throw new Error(`Cannot emit ${path}: path is outside ${config.outDir}`);
+  }
+
+  await ensureDir(dirname(outputPath));
+  if (typeof contents === 'string') {
+    await Deno.writeTextFile(outputPath, contents);
+  } else {
+    await Deno.writeFile(outputPath, contents);
+  }
+  if (!emittedFiles.includes(outputPath)) emittedFiles.push(outputPath);
+  trackOutput(outputPath);
+  console.log(`✅ Emitted ${outputPath}`);
+}
+
+function pluginError(
+  plugin: AstrodonPlugin,
+  hook: keyof AstrodonPlugin,
+  error: unknown
+): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error(`Plugin "${plugin.name}" failed in ${hook}: ${message}`, {
+    cause: error,
+  });
+}
+
+type TransformHook =
+  | 'transformFrontmatter'
+  | 'transformMarkdown'
+  | 'transformAst'
+  | 'transformHtml'
+  | 'transformPage';
+
+// Pass a value through the given transform hook of every plugin in order
+async function runTransformHook<T>(
+  hook: TransformHook,
+  value: T,
+  page: PageContext
+): Promise<T> {
+  for (const plugin of plugins) {
+    const transform = plugin[hook] as
+      ((value: T, page: PageContext) => T | Promise<T>) | undefined;
+    if (!transform) continue;
+    try {
+      value = await transform.call(plugin, value, page);
+    } catch (error) {
+      throw pluginError(plugin, hook, error);
+    }
+  }
+  return value;
+}
+
+// Let plugins adjust the resolved configuration before anything is built
+async function runConfigHooks(): Promise<void> {
+  for (const plugin of plugins) {
+    if (!plugin.onConfig) continue;
+    try {
+      const overrides = await plugin.onConfig({ ...config });
+      if (overrides) config = { ...config, ...overrides };
+    } catch (error) {
+      throw pluginError(plugin, 'onConfig', error);
+    }
+  }
+}
+
+async function runBuildEndHooks(result: BuildResult): Promise<void> {
+  for (const plugin of plugins) {
+    if (!plugin.onBuildEnd) continue;
+    try {
+      await plugin.onBuildEnd(result, { config, emitFile });
+    } catch (error) {
+      throw pluginError(plugin, 'onBuildEnd', error);
+    }
+  }
+}
+
+// Per-directory frontmatter schema files
+const SCHEMA_FILE = '_schema.json';
+const schemaCache = new Map<string, FrontmatterSchema | null>();
+
+// Find the schema that applies to a directory: its own _schema.json or the
+// nearest one in a parent directory inside contentDir
+async function loadSchema(dir: string): Promise<FrontmatterSchema | null> {
+  const cached = schemaCache.get(dir);
+  if (cached !== undefined) return cached;
+
+  let schema: FrontmatterSchema | null = null;
+  const schemaPath = join(dir, SCHEMA_FILE);
   try {
-    await scanDirectory(routesDir);
-  } catch {
-    console.error('❌ Routes directory not found.');
-    return;
+    const source = await Deno.readTextFile(schemaPath);
+    try {
+      schema = JSON.parse(source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid schema ${schemaPath}: ${message}`);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    const parent = dirname(dir);
+    if (relative(config.contentDir, dir) !== '' && parent !== dir) {
+      schema = await loadSchema(parent);
+    }
+  }
+
+  schemaCache.set(dir, schema);
+  return schema;
+}
+
+// Validate frontmatter against the directory schemas, report every violation
+// and return the files that have at least one
+async function validatePages(markdownFiles: string[]): Promise<Set<string>> {
+  const invalidFiles = new Set<string>();
+
+  for (const filePath of markdownFiles) {
+    const schema = await loadSchema(dirname(filePath));
+    if (!schema) continue;
+
+    let issues;
+    try {
+      const frontmatter = parseFrontmatter(await Deno.readTextFile(filePath));
+      issues = validateFrontmatter(frontmatter, schema);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues = [{ field: '', line: 1, message }];
+    }
+
+    for (const issue of issues) {
+      const field = issue.field ? `${issue.field}: ` : '';
+      warn(`${filePath}:${issue.line} ${field}${issue.message}`);
+    }
+    if (issues.length > 0) invalidFiles.add(filePath);
+  }
+
+  return invalidFiles;
+}
+
+type PageResult =
+  | {
+      success: true;
+      filePath: string;
+      outputPath: string;
+      meta: Meta;
+      cached: boolean;
+      processingTime: number;
+    }
+  | { success: false; filePath: string; error: unknown };
+
+// Render a single markdown file to its HTML output file
+async function buildPage(
+  filePath: string,
+  site: SiteData
+): Promise<PageResult> {
+  const startTime = performance.now();
+  console.log(`📝 Processing ${filePath}...`);
+
+  try {
+    const content = await Deno.readTextFile(filePath);
+    const { currentPath, outputPath } = getPagePaths(filePath);
+    // Failed pages keep the output of their last successful build
+    trackOutput(outputPath);
+
+    // Generate navigation with current path
+    const pageNavigationHTML = generateNavigationHTML(
+      site.navigation,
+      currentPath
+    );
+
+    // Skip parsing and writing entirely when nothing the page depends on changed
+    const hash = await getPageHash(filePath, content, pageNavigationHTML);
+    if (!(await needsReprocessing(filePath, hash, outputPath))) {
+      console.log(`⚡ Using cached result for ${filePath}`);
+      buildMetrics.cachedFiles++;
+      const processingTime = performance.now() - startTime;
+      const { meta, emittedFiles: pageFiles } = buildCache.entries[filePath];
+      // The page's hooks don't run, so keep the files they emitted last time
+      pageFiles.forEach(trackOutput);
+      return {
+        success: true,
+        filePath,
+        outputPath,
+        meta,
+        cached: true,
+        processingTime,
+      };
+    }
+
+    // Remember what the page's hooks emit, for cache hits in later builds
+    const pageFiles: string[] = [];
+    const page: PageContext = {
+      sourcePath: filePath,
+      outputPath,
+      url: currentPath,
+      meta: {},
+      config,
+      emitFile: async (path, contents) => {
+        await emitFile(path, contents);
+        pageFiles.push(resolve(config.outDir, path));
+      },
+    };
+    const pageData = await processMarkdownFile(filePath, content, page, site);
+    const html = await runTransformHook(
+      'transformPage',
+      await generateHTML(pageData, pageNavigationHTML),
+      page
+    );
+
+    // Ensure output directory exists
+    await ensureDir(dirname(outputPath));
+
+    // Write HTML file
+    await Deno.writeTextFile(outputPath, html);
+    console.log(`✅ Generated ${outputPath}`);
+    if (!templateFailures.has(filePath)) {
+      updateCache(filePath, hash, outputPath, pageData.meta, pageFiles);
+    }
+
+    // Record processing time
+    const processingTime = performance.now() - startTime;
+    buildMetrics.fileProcessingTimes.set(filePath, processingTime);
+    buildMetrics.processedFiles++;
+
+    return {
+      success: true,
+      filePath,
+      outputPath,
+      meta: pageData.meta,
+      cached: false,
+      processingTime,
+    };
+  } catch (error) {
+    console.error(`❌ Error processing ${filePath}:`, error);
+    return { success: false, filePath, error };
+  }
+}
+
+// Build pages with at most `build.parallel.maxConcurrency` at a time (one at
+// a time when parallel builds are disabled), keeping results in order
+async function buildPages(
+  filePaths: string[],
+  navItems: NavItem[]
+): Promise<PageResult[]> {
+  const { parallel } = config.optimization.build;
+  const concurrency = parallel.enabled ? parallel.maxConcurrency : 1;
+  const site = createSiteData(sitePages, navItems);
+  const results: PageResult[] = new Array(filePaths.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < filePaths.length) {
+      const index = next++;
+      results[index] = await buildPage(filePaths[index], site);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, filePaths.length) }, worker)
+  );
+  return results;
+}
+
+// Collect page results and metrics into the public BuildResult shape
+function createBuildResult(results: PageResult[]): BuildResult {
+  const pages: BuildPage[] = [];
+  const errors: BuildFileError[] = [];
+
+  for (const result of results) {
+    if (result.success) {
+      pages.push({
+        sourcePath: result.filePath,
+        outputPath: result.outputPath,
+        meta: result.meta,
+        cached: result.cached,
+      });
+    } else {
+      errors.push({
+        kind: 'page',
+        filePath: result.filePath,
+        message:
+          result.error instanceof Error
+            ? result.error.message
+            : String(result.error),
+        error: result.error,
+      });
+    }
+  }
+
+  return {
+    pages,
+    warnings: [...buildWarnings],
+    errors: [...errors, ...buildErrors],
+    emittedFiles: [...emittedFiles],
+    nextPublishDate: getNextPublishDate(),
+    metrics: {
+      totalTime: performance.now() - buildMetrics.startTime,
+      totalFiles: buildMetrics.totalFiles,
+      cachedFiles: buildMetrics.cachedFiles,
+      processedFiles: buildMetrics.processedFiles,
+      fileProcessingTimes: Object.fromEntries(buildMetrics.fileProcessingTimes),
+    },
+  };
+}
+
+/**
+ * Builds the site in-process.
+ *
+ * Prefer `build()` from mod.ts, which also resolves the package's default
+ * assets, components and template.
+ */
+export async function build(options: BuildOptions): Promise<BuildResult> {
+  if (options.now && Number.isNaN(options.now.getTime())) {
+    throw new Error('Invalid now: not a valid date');
+  }
+  const optimization = await loadOptimizationConfig(options.optimizationConfig);
+  config = {
+    contentDir: options.contentDir,
+    outDir: options.outDir,
+    assetsDir: options.assetsDir ?? './assets',
+    componentsDir: options.componentsDir ?? './components',
+    layoutsDir: options.layoutsDir ?? './layouts',
+    site: {
+      ...options.site,
+      name: options.site?.name ?? DEFAULT_SITE_NAME,
+      language: options.site?.language ?? 'en',
+    },
+    template: options.template ?? './template.ts',
+    strict: options.strict ?? false,
+    failOnError: options.failOnError ?? true,
+    clean: options.clean ?? false,
+    includeDrafts: options.includeDrafts ?? false,
+    now: options.now ?? new Date(),
+    watch: options.watch ?? false,
+    optimization: optimization.config,
+  };
+  plugins = options.plugins ?? [];
+  nowIsFixed = options.now !== undefined;
+  schemaCache.clear();
+  buildWarnings = [];
+  buildErrors = [];
+  templateFailures.clear();
+  emittedFiles = [];
+  optimization.warnings.forEach(warn);
+
+  await runConfigHooks();
+
+  const { result, navItems } = await buildSite();
+
+  // The watcher keeps the process alive; the initial result is returned
+  // right away so callers can inspect it
+  if (config.watch) {
+    watch(navItems).catch(error => {
+      console.error('❌ Watcher stopped:', error);
+    });
+  }
+
+  return result;
+}
+
+// Main build function
+async function buildSite(): Promise<{
+  result: BuildResult;
+  navItems: NavItem[];
+}> {
+  console.log('🚀 Starting build...');
+  startBuildTimer();
+  outputFiles.clear();
+
+  if (config.clean) await cleanOutDir();
+
+  // Ensure dist directory exists
+  await ensureDir(config.outDir);
+
+  // Generate navigation
+  console.log('🧭 Generating navigation...');
+  const navItems = await generateNavigation();
+  const navigationHTML = generateNavigationHTML(navItems);
+  console.log('Navigation items:', navItems);
+  console.log('Navigation HTML:', navigationHTML);
+
+  // Find all markdown files in routes (including subdirectories)
+  const markdownFiles = await scanMarkdownFiles();
+  const nextPublishDate = getNextPublishDate();
+  if (nextPublishDate) {
+    const next = scheduledPages.find(
+      page => page.time === nextPublishDate.getTime()
+    )!;
+    console.log(
+      `⏰ ${scheduledPages.length} scheduled page(s) left out; next: ${next.filePath} at ${nextPublishDate.toISOString()}`
+    );
   }
 
   if (markdownFiles.length === 0) {
-    console.log('ℹ️  No markdown files found in routes/');
-    return;
+    warn(`No markdown files found in ${config.contentDir}`);
+    return { result: createBuildResult([]), navItems };
+  }
+
+  // Check frontmatter against directory schemas before writing anything
+  const invalidFiles = await validatePages(markdownFiles);
+  if (invalidFiles.size > 0) {
+    const summary = `Frontmatter schema violations in ${invalidFiles.size} file(s)`;
+    if (config.strict) {
+      throw new Error(`Astrodon build failed: ${summary} (strict mode)`);
+    }
+    console.log(`⚠️  ${summary}`);
   }
 
+  // Templates can list any page, so collect them all before rendering one
+  await updateSitePages(markdownFiles);
+
   // Copy assets and optimize images BEFORE processing markdown files
-  // This ensures WebP files exist when parseMarkdown() checks for them
+  // This ensures WebP files exist when treeToHtml() checks for them
   console.log('📁 Copying assets...');
   await copyAssets();
 
   console.log('🖼️  Optimizing images...');
   await optimizeImages();
 
+  // Load the build cache after images so the WebP check sees the final set
+  await loadBuildCache();
+  await loadTemplate();
+
   // Process markdown files in parallel for better performance
   console.log(`📝 Processing ${markdownFiles.length} markdown files...`);
   buildMetrics.totalFiles = markdownFiles.length;
 
-  const processingPromises = markdownFiles.map(async filePath => {
-    const startTime = performance.now();
-    console.log(`📝 Processing ${filePath}...`);
+  // Wait for all files to be processed
+  const results = await buildPages(markdownFiles, navItems);
 
-    try {
-      const pageData = await processMarkdownFile(filePath);
+  // Drop entries for pages that no longer exist and persist the cache
+  for (const filePath of Object.keys(buildCache.entries)) {
+    if (!markdownFiles.includes(filePath)) delete buildCache.entries[filePath];
+  }
+  await saveBuildCache();
 
-      // Determine current path for active navigation
-      const fileName = basename(filePath, '.md');
-      const relativePath = relative(contentDir, filePath).replace('.md', '');
-      let currentPath = '';
+  // Log summary
+  const successful = results.filter(r => r.success).length;
+  const failed = results.filter(r => !r.success).length;
+  console.log(
+    `📊 Build summary: ${successful} files processed successfully, ${failed} failed`
+  );
 
-      if (fileName === 'index') {
-        if (relativePath === 'index') {
-          currentPath = '/';
-        } else {
-          // index.md in a subdirectory
-          currentPath = `/${dirname(relativePath)}`;
-        }
-      } else {
-        if (relativePath === fileName) {
-          // Top-level file
-          currentPath = `/${fileName}`;
-        } else {
-          // File in subdirectory
-          currentPath = `/${relativePath}`;
-        }
-      }
+  if (config.strict && templateFailures.size > 0) {
+    throw new Error(
+      `Astrodon build failed: template errors in ${templateFailures.size} page(s) (strict mode)`
+    );
+  }
 
-      // Generate navigation with current path
-      const pageNavigationHTML = generateNavigationHTML(navItems, currentPath);
-      const html = await generateHTML(
-        pageData.content,
-        pageData.meta,
-        pageNavigationHTML
+  // Copy serve.ts to dist for independent execution
+  console.log('🚀 Copying and patching serve.ts to dist...');
+  await copyServer();
+
+  // Log performance metrics
+  logBuildMetrics();
+
+  const result = createBuildResult(results);
+  await runBuildEndHooks(result);
+
+  // Remove pages of deleted markdown files, removed assets and the like,
+  // after onBuildEnd hooks have emitted their files
+  await removeStaleOutputs();
+
+  // In watch mode failures are only reported; the next change may fix them
+  if (result.errors.length > 0) {
+    const report = formatErrorReport(result.errors);
+    if (config.failOnError && !config.watch) {
+      throw new Error(
+        `Astrodon build failed with ${report}\n` +
+          'Pass --keep-going (failOnError: false) to exit successfully anyway'
       );
+    }
+    console.error(`❌ Build finished with ${report}`);
+  }
 
-      // Determine output path
-      let outputPath;
+  console.log('🎉 Build complete!');
+  // Include files emitted by onBuildEnd hooks
+  return { result: { ...result, emittedFiles: [...emittedFiles] }, navItems };
+}
 
-      if (fileName === 'index') {
-        if (relativePath === 'index') {
-          outputPath = join(outDir, 'index.html');
-        } else {
-          // index.md in a subdirectory
-          const dirName = dirname(relativePath);
-          outputPath = join(outDir, dirName, 'index.html');
-        }
+// Read a file shipped next to build.ts, locally or from the package registry
+async function readPackageFile(name: string): Promise<string> {
+  const url = new URL(name, import.meta.url);
+  if (url.protocol === 'file:') return await Deno.readTextFile(url);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${url}: ${response.status}`);
+  }
+  return await response.text();
+}
+
+// Copy serve.ts, with the optimization config loader it imports, to the
+// output directory so the site can be served on its own
+async function copyServer(): Promise<void> {
+  for (const name of ['serve.ts', 'optimization.ts']) {
+    const outputPath = join(config.outDir, name);
+    try {
+      let source = await readPackageFile(name);
+      if (name === 'serve.ts') {
+        // Patch fsRoot: "./dist" to fsRoot: "."
+        source = source.replace('fsRoot: "./dist"', 'fsRoot: "."');
+        // Patch specific Deno.readTextFile calls - be more precise
+        source = source.replace(
+          /Deno\.readTextFile\("\.\/dist" \+ htmlPath\)/g,
+          'Deno.readTextFile(htmlPath.slice(1))'
+        );
+        source = source.replace(
+          /const indexPath = "\.\/dist\/index\.html";/g,
+          'const indexPath = "index.html";'
+        );
+      }
+      await Deno.writeTextFile(outputPath, source);
+      trackOutput(outputPath);
+    } catch (error) {
+      console.error(`❌ Failed to copy ${name}:`, error);
+      recordError('server', outputPath, error);
+      return;
+    }
+  }
+  console.log('✅ serve.ts copied and patched to dist/');
+}
+
+// Failures grouped by kind, for the end of a build: "2 error(s):" followed
+// by the files of every kind with the first line of their error
+function formatErrorReport(errors: BuildFileError[]): string {
+  const groups: Record<BuildFileError['kind'], string> = {
+    page: 'Pages',
+    asset: 'Assets',
+    server: 'Server',
+  };
+  const lines = [`${errors.length} error(s):`];
+  for (const [kind, heading] of Object.entries(groups)) {
+    const group = errors.filter(error => error.kind === kind);
+    if (group.length === 0) continue;
+    lines.push(`  ${heading}:`);
+    for (const { filePath, message } of group) {
+      lines.push(`    ${filePath}: ${message.split('\n')[0]}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// Check whether a path is the given directory/file or lives inside it
+function isWithin(path: string, target: string): boolean {
+  return path === target || path.startsWith(target + SEPARATOR);
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isFile;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Works out which pages a batch of file changes affects and rebuilds only
+ * those, using the configuration of the last `build()`. Called by the
+ * watcher; exported so tests can drive rebuilds without one.
+ *
+ * @param changedPaths - Absolute paths of the changed files
+ * @param navItems - Navigation the pages were last built with
+ * @returns The navigation after the rebuild
+ */
+export async function rebuildChanged(
+  changedPaths: Set<string>,
+  navItems: NavItem[]
+): Promise<NavItem[]> {
+  const startTime = performance.now();
+  startBuildTimer();
+  buildWarnings = [];
+  buildErrors = [];
+  templateFailures.clear();
+  emittedFiles = [];
+  const absContentDir = resolve(config.contentDir);
+  const absAssetsDir = resolve(config.assetsDir);
+  const absComponentsDir = resolve(config.componentsDir);
+  const absLayoutsDir = resolve(config.layoutsDir);
+  const absTemplatePath = getTemplateFilePath();
+
+  const pages = new Set<string>();
+  let rebuildAll = false;
+  let contentChanged = false;
+  let assetsChanged = false;
+
+  // Scheduled pages whose time has come since the last build go live
+  if (!nowIsFixed) config.now = new Date();
+  if (scheduledPages.some(page => page.time <= config.now.getTime())) {
+    console.log('⏰ Publishing scheduled pages whose time has come');
+    contentChanged = true;
+  }
+
+  for (const path of changedPaths) {
+    const dependents = includeDependents.get(path);
+    if (dependents && dependents.size > 0) {
+      console.log(`🔁 Included file changed: ${relative(Deno.cwd(), path)}`);
+      for (const filePath of dependents) pages.add(filePath);
+    }
+
+    if (absTemplatePath && path === absTemplatePath) {
+      console.log(`🔁 Template changed: ${relative(Deno.cwd(), path)}`);
+      rebuildAll = true;
+    } else if (isWithin(path, absComponentsDir)) {
+      console.log(`🔁 Component changed: ${relative(Deno.cwd(), path)}`);
+      rebuildAll = true;
+    } else if (isWithin(path, absLayoutsDir)) {
+      console.log(`🔁 Layout changed: ${relative(Deno.cwd(), path)}`);
+      rebuildAll = true;
+    } else if (isWithin(path, absAssetsDir)) {
+      console.log(`🔁 Asset changed: ${relative(Deno.cwd(), path)}`);
+      assetsChanged = true;
+      // Pages point at WebP variants of images, so they must be re-rendered
+      if (IMAGE_EXTENSIONS.includes(extname(path).toLowerCase())) {
+        rebuildAll = true;
+      }
+    } else if (
+      isWithin(path, absContentDir) &&
+      basename(path) === SCHEMA_FILE
+    ) {
+      console.log(`🔁 Schema changed: ${relative(Deno.cwd(), path)}`);
+      schemaCache.clear();
+      rebuildAll = true;
+    } else if (
+      isWithin(path, absContentDir) &&
+      relative(absContentDir, dirname(path))
+        .split(SEPARATOR)
+        .some(isPartialsDir)
+    ) {
+      // Partials aren't pages; the pages using them were added above
+    } else if (isWithin(path, absContentDir) && path.endsWith('.md')) {
+      console.log(`🔁 Content changed: ${relative(Deno.cwd(), path)}`);
+      contentChanged = true;
+      // Keep paths relative to contentDir so they match the initial build
+      const filePath = join(config.contentDir, relative(absContentDir, path));
+
+      // Pages that were deleted or became drafts lose their output
+      if ((await fileExists(filePath)) && (await isPublishedFile(filePath))) {
+        pages.add(filePath);
       } else {
-        if (relativePath === fileName) {
-          // Top-level file
-          outputPath = join(outDir, `${fileName}.html`);
-        } else {
-          // File in subdirectory
-          outputPath = join(outDir, `${relativePath}.html`);
+        delete buildCache.entries[filePath];
+        outputFiles.delete(
+          relative(resolve(config.outDir), getPagePaths(filePath).outputPath)
+        );
+        try {
+          await Deno.remove(getPagePaths(filePath).outputPath);
+          console.log(`🗑️  Removed ${getPagePaths(filePath).outputPath}`);
+        } catch {
+          // Output was never generated
         }
       }
 
-      // Ensure output directory exists
-      await ensureDir(dirname(outputPath));
-
-      // Write HTML file
-      await Deno.writeTextFile(outputPath, html);
-      console.log(`✅ Generated ${outputPath}`);
+      // The directory index lists its siblings via {{routes:toc}} cards
+      if (basename(filePath) !== 'index.md') {
+        const indexPath = join(dirname(filePath), 'index.md');
+        if (await fileExists(indexPath)) {
+          pages.add(indexPath);
+        }
+      }
+    }
+  }
 
-      // Record processing time
-      const processingTime = performance.now() - startTime;
-      buildMetrics.fileProcessingTimes.set(filePath, processingTime);
-      buildMetrics.processedFiles++;
+  if (assetsChanged) {
+    await copyAssets();
+    await optimizeImages();
+  }
 
-      return { success: true, filePath, outputPath, processingTime };
-    } catch (error) {
-      console.error(`❌ Error processing ${filePath}:`, error);
-      return { success: false, filePath, error };
+  // Every page embeds the navigation and templates can list any page, so a
+  // change in titles, dates, frontmatter or the set of pages means
+  // everything needs to be re-rendered
+  if (contentChanged) {
+    const updatedNavItems = await generateNavigation();
+    if (JSON.stringify(updatedNavItems) !== JSON.stringify(navItems)) {
+      navItems = updatedNavItems;
+      rebuildAll = true;
     }
-  });
+    if (await updateSitePages(await scanMarkdownFiles())) {
+      rebuildAll = true;
+    }
+  }
 
-  // Wait for all files to be processed
-  const results = await Promise.all(processingPromises);
+  // Re-validate the cache so template, component and image changes discard it
+  if (rebuildAll) {
+    await loadBuildCache();
+    await loadTemplate();
+  }
 
-  // Log summary
-  const successful = results.filter(r => r.success).length;
+  let targets = rebuildAll ? await scanMarkdownFiles() : [...pages];
+
+  // Strict mode keeps the last good output of pages that violate their schema
+  const invalidFiles = await validatePages(targets);
+  if (config.strict) {
+    targets = targets.filter(filePath => !invalidFiles.has(filePath));
+  }
+
+  if (targets.length === 0) {
+    await saveBuildCache();
+    await saveOutputManifest();
+    return navItems;
+  }
+
+  buildMetrics.totalFiles = targets.length;
+  const results = await buildPages(targets, navItems);
+  await saveBuildCache();
   const failed = results.filter(r => !r.success).length;
   console.log(
-    `📊 Build summary: ${successful} files processed successfully, ${failed} failed`
+    `🔄 Rebuilt ${results.length - failed} page(s)${
+      failed > 0 ? `, ${failed} failed` : ''
+    } in ${(performance.now() - startTime).toFixed(2)}ms`
   );
 
-  // Copy serve.ts to dist for independent execution
-  console.log('🚀 Copying and patching serve.ts to dist...');
-  try {
-    let serveSrc = await Deno.readTextFile('./serve.ts');
-    // Patch fsRoot: "./dist" to fsRoot: "."
-    serveSrc = serveSrc.replace('fsRoot: "./dist"', 'fsRoot: "."');
-    // Patch specific Deno.readTextFile calls - be more precise
-    serveSrc = serveSrc.replace(
-      /Deno\.readTextFile\("\.\/dist" \+ htmlPath\)/g,
-      'Deno.readTextFile(htmlPath.slice(1))'
-    );
-    serveSrc = serveSrc.replace(
-      /const indexPath = "\.\/dist\/index\.html";/g,
-      'const indexPath = "index.html";'
-    );
-    serveSrc = serveSrc.replace(
-      /const indexContent = await Deno\.readTextFile\(indexPath\);/g,
-      'const indexContent = await Deno.readTextFile(indexPath);'
-    );
-    await Deno.writeTextFile(join(outDir, 'serve.ts'), serveSrc);
-    console.log('✅ serve.ts copied and patched to dist/');
-  } catch (error) {
-    console.error('❌ Failed to copy/patch serve.ts:', error);
+  const result = createBuildResult(results);
+  await runBuildEndHooks(result);
+  await saveOutputManifest();
+  if (result.errors.length > 0) {
+    const report = formatErrorReport(result.errors);
+    console.error(`❌ Rebuild finished with ${report}`);
   }
 
-  // Log performance metrics
-  logBuildMetrics();
+  return navItems;
+}
 
-  console.log('🎉 Build complete!');
+// Keep the process alive and incrementally rebuild on source changes
+async function watch(navItems: NavItem[]): Promise<void> {
+  const candidates = [
+    config.contentDir,
+    config.assetsDir,
+    config.componentsDir,
+    config.layoutsDir,
+  ];
+  const templateFile = getTemplateFilePath();
+  if (templateFile) candidates.push(templateFile);
+
+  const watchPaths: string[] = [];
+  for (const path of candidates) {
+    try {
+      await Deno.stat(path);
+      watchPaths.push(resolve(path));
+    } catch {
+      // Optional directories (assets, components, layouts) may not exist
+    }
+  }
+
+  console.log(`👀 Watching for changes in ${watchPaths.join(', ')}`);
+
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let rebuilding = Promise.resolve();
+
+  // Files pulled in with {{include:...}} may live outside the watched
+  // directories, so each of those gets a watcher of its own
+  const watchedIncludes = new Set<string>();
+  const watchIncludes = () => {
+    for (const path of includeDependents.keys()) {
+      if (watchedIncludes.has(path)) continue;
+      if (watchPaths.some(watchPath => isWithin(path, watchPath))) continue;
+      try {
+        listen(Deno.watchFs(path));
+        watchedIncludes.add(path);
+      } catch {
+        // Missing includes are reported by the build; watched once they exist
+      }
+    }
+  };
+
+  // Scheduled pages go live without any file changing, so rebuild once the
+  // next one is due
+  let publishTimer: ReturnType<typeof setTimeout> | undefined;
+  const schedulePublish = () => {
+    clearTimeout(publishTimer);
+    const next = getNextPublishDate();
+    if (!next || nowIsFixed) return;
+    const delay = Math.min(next.getTime() - Date.now(), MAX_TIMEOUT_MS);
+    publishTimer = setTimeout(() => rebuild(new Set()), Math.max(delay, 0));
+  };
+
+  const rebuild = (changedPaths: Set<string>) => {
+    rebuilding = rebuilding.then(async () => {
+      try {
+        navItems = await rebuildChanged(changedPaths, navItems);
+        watchIncludes();
+      } catch (error) {
+        // Keep watching; the next change gets another chance
+        console.error('❌ Rebuild failed:', error);
+      }
+      schedulePublish();
+    });
+  };
+
+  const listen = async (watcher: Deno.FsWatcher) => {
+    for await (const event of watcher) {
+      if (event.kind === 'access') continue;
+      for (const path of event.paths) pending.add(path);
+
+      // Editors emit several events per save, so batch them before rebuilding
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const changedPaths = pending;
+        pending = new Set();
+        rebuild(changedPaths);
+      }, WATCH_DEBOUNCE_MS);
+    }
+  };
+
+  watchIncludes();
+  schedulePublish();
+  await listen(Deno.watchFs(watchPaths, { recursive: true }));
+}
+
+// Configurable directories via CLI flags
+function getArg(name: string, defaultValue: string): string {
+  const arg = Deno.args.find(a => a.startsWith(`--${name}=`));
+  if (!arg) return defaultValue;
+  return arg.substring(name.length + 3);
+}
+
+function hasFlag(name: string): boolean {
+  return Deno.args.includes(`--${name}`);
 }
 
 // Run build if this script is executed directly
 if (import.meta.main) {
-  await build();
+  try {
+    await build({
+      contentDir: getArg('contentDir', './routes'),
+      outDir: getArg('outDir', './dist'),
+      assetsDir: getArg('assetsDir', './assets'),
+      componentsDir: getArg('componentsDir', './components'),
+      layoutsDir: getArg('layoutsDir', './layouts'),
+      template: getArg('template', './template.ts'),
+      optimizationConfig: getArg(
+        'optimizationConfig',
+        './optimization.config.json'
+      ),
+      strict: hasFlag('strict'),
+      failOnError: !hasFlag('keep-going'),
+      clean: hasFlag('clean'),
+      includeDrafts: hasFlag('drafts'),
+      now: getArg('now', '') ? new Date(getArg('now', '')) : undefined,
+      watch: hasFlag('watch'),
+    });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    Deno.exit(1);
+  }
 }
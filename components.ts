@@ -0,0 +1,431 @@
+// Components for layouts and markdown content: `{{component:name props}}`
+// or `{{component:name props}}children{{/component}}`, rendered by an
+// `.html` file with `{{prop}}` interpolation or a `.ts` module
+
+import { join, toFileUrl } from '@std/path';
+import { escapeHtml } from './markdown.ts';
+
+/** Props of a component: the attributes of its directive and its children. */
+export interface ComponentProps {
+  [name: string]: string;
+  /** Rendered HTML between the opening and closing directive ('' if none) */
+  children: string;
+}
+
+/** Renders a component; `.ts` components export it as `render`. */
+export type ComponentRender = (
+  props: ComponentProps
+) => string | Promise<string>;
+
+/** Where components come from and how their children are rendered. */
+export interface ComponentOptions {
+  /** Directory with the `name.html` and `name.ts` components */
+  dir: string;
+  /** Renders the markdown children of components used in content */
+  renderMarkdown: (markdown: string) => string;
+  /** Markup of components that have no file, by name */
+  fallbacks?: Record<string, string>;
+  /** Added to `.ts` imports so edited modules aren't served from cache */
+  version?: string;
+}
+
+interface ComponentNode {
+  name: string;
+  props: Record<string, string>;
+  children: (string | ComponentNode)[];
+  directive: string;
+}
+
+// An opening (`{{component:name a="b"}}`, self-closing with ` /}}`) or
+// closing (`{{/component}}`) directive
+const COMPONENT_TAG =
+  /\{\{component:([\w-]+)((?:[ \t]+[\w-]+=(?:"[^"]*"|'[^']*'|[^\s"'}]+))*)[ \t]*(\/)?\}\}|\{\{\/component\}\}/g;
+const PROP = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s"'}]+))/g;
+const INTERPOLATION = /\{\{([\w-]+)\}\}/g;
+const CODE_FENCE = /^(`{3,}|~{3,})/;
+const LIST_MARKER = /^([-+*]|\d{1,9}[.)])([ \t]*)/;
+const ATX_HEADING = /^#{1,6}(?:[ \t]|$)/;
+const BLANK_LINE = /\n[ \t]*(?:\n|$)/g;
+const PLACEHOLDER = /<!--component:(\d+)-->/g;
+
+/** Parses directive attributes like `type="warning" open=true` into props. */
+export function parseProps(source: string): Record<string, string> {
+  const props: Record<string, string> = {};
+  for (const match of source.matchAll(PROP)) {
+    props[match[1]] = match[2] ?? match[3] ?? match[4];
+  }
+  return props;
+}
+
+/**
+ * Renders the components of an HTML document, such as a layout. Children
+ * are used as they are.
+ *
+ * @throws {Error} If a component doesn't exist or components use each
+ * other in a cycle
+ */
+export async function renderComponents(
+  html: string,
+  options: ComponentOptions
+): Promise<string> {
+  return await renderNodes(parse(html, []), options, false, []);
+}
+
+/** Markdown with its components replaced by placeholders. */
+export interface MarkdownComponents {
+  /** The markdown, with a `<!--component:N-->` comment per component */
+  markdown: string;
+  /** Rendered HTML of every component, by placeholder number */
+  components: string[];
+}
+
+/**
+ * Renders the components used in markdown content. Their children are
+ * rendered as markdown first; directives in code blocks and code spans are
+ * left alone. The components are swapped for HTML comments, which markdown
+ * passes through, so they can be put back with {@link insertComponents}
+ * after the page is rendered.
+ *
+ * @throws {Error} If a component doesn't exist or components use each
+ * other in a cycle
+ */
+export async function renderMarkdownComponents(
+  markdown: string,
+  options: ComponentOptions
+): Promise<MarkdownComponents> {
+  if (!markdown.includes('{{component:')) {
+    return { markdown, components: [] };
+  }
+
+  const components: string[] = [];
+  let result = '';
+  for (const part of parse(markdown, codeRanges(markdown))) {
+    if (typeof part === 'string') {
+      result += part;
+    } else {
+      components.push(await renderNode(part, options, true, []));
+      result += `<!--component:${components.length - 1}-->`;
+    }
+  }
+  return { markdown: result, components };
+}
+
+/** Puts rendered components back in place of their placeholders. */
+export function insertComponents(html: string, components: string[]): string {
+  if (components.length === 0) return html;
+  return html.replace(
+    PLACEHOLDER,
+    (placeholder, index) => components[Number(index)] ?? placeholder
+  );
+}
+
+/**
+ * Start and end offsets of the code in a markdown document: fenced and
+ * indented code blocks and inline code spans.
+ */
+export function codeRanges(markdown: string): [number, number][] {
+  const blocks = codeBlockRanges(markdown);
+  return [...blocks, ...codeSpanRanges(markdown, blocks)].sort(
+    (a, b) => a[0] - b[0]
+  );
+}
+
+// Fenced and indented code blocks. Indented code is four columns deeper
+// than the list item holding it and can't interrupt a paragraph.
+function codeBlockRanges(markdown: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  let fence: string | null = null;
+  let indented: [number, number] | null = null;
+  let start = 0;
+  let offset = 0;
+  // Content column of the list item the lines belong to
+  let listIndent = 0;
+  let paragraph = false;
+
+  for (const line of markdown.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+    const indent = indentWidth(line);
+    const content = line.trimStart();
+
+    if (fence !== null) {
+      const marker = content.match(CODE_FENCE)?.[1];
+      if (
+        marker &&
+        indent - listIndent < 4 &&
+        marker[0] === fence[0] &&
+        marker.length >= fence.length
+      ) {
+        fence = null;
+        ranges.push([start, lineEnd]);
+      }
+      continue;
+    }
+
+    if (indented !== null) {
+      if (content === '' || indent >= listIndent + 4) {
+        if (content !== '') indented[1] = lineEnd;
+        continue;
+      }
+      ranges.push(indented);
+      indented = null;
+    }
+
+    if (content === '') {
+      paragraph = false;
+      continue;
+    }
+    // A line left of the list item after a blank line ends the list
+    if (indent < listIndent && !paragraph) listIndent = 0;
+
+    if (indent >= listIndent + 4 && !paragraph) {
+      indented = [lineStart, lineEnd];
+      continue;
+    }
+    const marker = content.match(CODE_FENCE)?.[1];
+    if (marker) {
+      fence = marker;
+      start = lineStart;
+      paragraph = false;
+      continue;
+    }
+    const item = content.match(LIST_MARKER);
+    if (item) {
+      const spaces = item[2].length;
+      listIndent =
+        indent + item[1].length + (spaces === 0 || spaces > 4 ? 1 : spaces);
+      paragraph = content.length > item[0].length;
+      continue;
+    }
+    paragraph = !ATX_HEADING.test(content);
+  }
+
+  if (fence !== null) ranges.push([start, markdown.length]);
+  if (indented !== null) ranges.push(indented);
+  return ranges;
+}
+
+// Inline code spans outside code blocks: a run of backticks up to the next
+// run of the same length within the paragraph. Escaped backticks don't open
+// a span.
+function codeSpanRanges(
+  markdown: string,
+  blocks: [number, number][]
+): [number, number][] {
+  const ranges: [number, number][] = [];
+  let i = 0;
+  while (i < markdown.length) {
+    const block = blocks.find(([start, end]) => i >= start && i < end);
+    if (block) {
+      i = block[1];
+    } else if (markdown[i] === '\\') {
+      i += 2;
+    } else if (markdown[i] !== '`') {
+      i++;
+    } else {
+      const length = markdown.slice(i).match(/^`+/)![0].length;
+      const close = findClosingRun(markdown, i + length, length, blocks);
+      if (close === -1) {
+        i += length;
+      } else {
+        ranges.push([i, close + length]);
+        i = close + length;
+      }
+    }
+  }
+  return ranges;
+}
+
+// Offset of the next run of exactly `length` backticks before the
+// paragraph or a code block ends, or -1
+function findClosingRun(
+  markdown: string,
+  from: number,
+  length: number,
+  blocks: [number, number][]
+): number {
+  BLANK_LINE.lastIndex = from;
+  const limit = Math.min(
+    BLANK_LINE.exec(markdown)?.index ?? markdown.length,
+    ...blocks.filter(([start]) => start >= from).map(([start]) => start)
+  );
+  const runs = /`+/g;
+  runs.lastIndex = from;
+  for (let run = runs.exec(markdown); run; run = runs.exec(markdown)) {
+    if (run.index >= limit) break;
+    if (run[0].length === length) return run.index;
+  }
+  return -1;
+}
+
+// Columns of leading whitespace, with tabs stopping at multiples of four
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += 4 - (width % 4);
+    else break;
+  }
+  return width;
+}
+
+// Builds the component tree of a document. `{{/component}}` closes the
+// innermost open component; components never closed have no children.
+function parse(
+  source: string,
+  skip: [number, number][]
+): (string | ComponentNode)[] {
+  const root: (string | ComponentNode)[] = [];
+  const open: ComponentNode[] = [];
+  const current = () => open.at(-1)?.children ?? root;
+  let last = 0;
+
+  for (const match of source.matchAll(COMPONENT_TAG)) {
+    const index = match.index;
+    if (skip.some(([start, end]) => index >= start && index < end)) continue;
+    current().push(source.slice(last, index));
+    last = index + match[0].length;
+
+    const [directive, name, props, selfClosing] = match;
+    if (name === undefined) {
+      if (open.length === 0) {
+        throw new Error(`${directive} without an opening {{component:...}}`);
+      }
+      open.pop();
+      continue;
+    }
+    const node: ComponentNode = {
+      name,
+      props: parseProps(props),
+      children: [],
+      directive,
+    };
+    current().push(node);
+    if (!selfClosing) open.push(node);
+  }
+  current().push(source.slice(last));
+
+  // Unclosed components are childless; what followed them moves up a level
+  while (open.length > 0) {
+    const node = open.pop()!;
+    const siblings = current();
+    siblings.splice(siblings.indexOf(node) + 1, 0, ...node.children);
+    node.children = [];
+  }
+  return root;
+}
+
+async function renderNodes(
+  nodes: (string | ComponentNode)[],
+  options: ComponentOptions,
+  markdown: boolean,
+  stack: string[]
+): Promise<string> {
+  let html = '';
+  for (const node of nodes) {
+    html +=
+      typeof node === 'string'
+        ? node
+        : await renderNode(node, options, markdown, stack);
+  }
+  return html;
+}
+
+async function renderNode(
+  node: ComponentNode,
+  options: ComponentOptions,
+  markdown: boolean,
+  stack: string[]
+): Promise<string> {
+  if (stack.includes(node.name)) {
+    const cycle = [...stack, node.name].join(' → ');
+    throw new Error(`${node.directive}: component cycle: ${cycle}`);
+  }
+  const render = await loadComponent(node.name, options);
+  if (!render) {
+    throw new Error(`${node.directive}: component not found in ${options.dir}`);
+  }
+
+  const children = markdown
+    ? await renderMarkdownChildren(node.children, options, stack)
+    : await renderNodes(node.children, options, false, stack);
+  const html = await render({ ...node.props, children });
+
+  // Components may use other components in their own markup
+  return await renderNodes(parse(html, []), options, false, [
+    ...stack,
+    node.name,
+  ]);
+}
+
+// Renders markdown children, with nested components in place. Children on
+// a single line (`{{component:badge}}new{{/component}}`) stay inline.
+async function renderMarkdownChildren(
+  children: (string | ComponentNode)[],
+  options: ComponentOptions,
+  stack: string[]
+): Promise<string> {
+  if (children.length === 0) return '';
+  const components: string[] = [];
+  let markdown = '';
+  for (const child of children) {
+    if (typeof child === 'string') {
+      markdown += child;
+    } else {
+      components.push(await renderNode(child, options, true, stack));
+      markdown += `<!--component:${components.length - 1}-->`;
+    }
+  }
+
+  let html = options.renderMarkdown(markdown.trim());
+  const paragraph = html.match(/^<p>([\s\S]*)<\/p>\n?$/);
+  if (!markdown.includes('\n') && paragraph && !paragraph[1].includes('<p>')) {
+    html = paragraph[1];
+  }
+  return insertComponents(html, components);
+}
+
+// The render function of a component: its `.ts` module, its `.html` file
+// or a fallback; null if there is none
+async function loadComponent(
+  name: string,
+  options: ComponentOptions
+): Promise<ComponentRender | null> {
+  const modulePath = join(options.dir, `${name}.ts`);
+  if (await isFile(modulePath)) {
+    let url = toFileUrl(await Deno.realPath(modulePath)).href;
+    if (options.version) url += `?v=${options.version}`;
+    const module = await import(url);
+    if (typeof module.render !== 'function') {
+      throw new Error(`${modulePath} does not export a render function`);
+    }
+    return module.render;
+  }
+
+  let html = options.fallbacks?.[name];
+  try {
+    html = await Deno.readTextFile(join(options.dir, `${name}.html`));
+  } catch {
+    // No file; the fallback, if any, is used
+  }
+  return html === undefined ? null : props => interpolate(html, props);
+}
+
+// Fills in `{{prop}}` placeholders; children are HTML, other props are
+// escaped. Placeholders of props that weren't passed are left as they are,
+// so layout placeholders like `{{navigation}}` keep working.
+function interpolate(html: string, props: ComponentProps): string {
+  return html.replace(INTERPOLATION, (placeholder, name: string) => {
+    if (!Object.hasOwn(props, name)) return placeholder;
+    return name === 'children' ? props.children : escapeHtml(props[name]);
+  });
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isFile;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,381 @@
+// Frontmatter parsing for markdown content files (YAML, TOML and JSON)
+
+import { parse as parseToml } from '@std/toml';
+import { parse as parseYaml } from '@std/yaml';
+
+// Frontmatter is arbitrary YAML/TOML/JSON, so values are intentionally loosely typed.
+// deno-lint-ignore no-explicit-any
+export type Meta = Record<string, any>;
+
+/** Syntax a frontmatter block was written in. */
+export type FrontmatterFormat = 'yaml' | 'toml' | 'json';
+
+/** Result of splitting a markdown file into frontmatter and body. */
+export interface Frontmatter {
+  /** Parsed frontmatter values (empty when the file has no frontmatter) */
+  meta: Meta;
+  /** Markdown content following the frontmatter block */
+  body: string;
+  /** Raw frontmatter source without delimiters, or null if there is none */
+  raw: string | null;
+  /** Syntax of the frontmatter block, or null if there is none */
+  format: FrontmatterFormat | null;
+}
+
+// Opening and closing delimiters must each sit on their own line:
+// `---` for YAML, `+++` for TOML (as used by Hugo and Zola)
+const YAML_FRONTMATTER =
+  /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const TOML_FRONTMATTER =
+  /^\+\+\+[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?\+\+\+[ \t]*(?:\r?\n|$)/;
+// A leading JSON object; checked on the first key so `{{marker}}` never matches
+const JSON_FRONTMATTER_START = /^\{\s*["}]/;
+
+/**
+ * Splits a markdown file into its parsed frontmatter and body.
+ *
+ * Supports `---` YAML, `+++` TOML and leading `{ ... }` JSON blocks; all of
+ * them produce the same {@link Meta} object.
+ *
+ * @throws {Error} If the frontmatter is malformed or not a mapping
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const yamlMatch = content.match(YAML_FRONTMATTER);
+  if (yamlMatch) {
+    const raw = yamlMatch[1] ?? '';
+    return {
+      meta: parseYamlFrontmatter(raw),
+      body: content.slice(yamlMatch[0].length).trim(),
+      raw,
+      format: 'yaml',
+    };
+  }
+
+  const tomlMatch = content.match(TOML_FRONTMATTER);
+  if (tomlMatch) {
+    const raw = tomlMatch[1] ?? '';
+    return {
+      meta: parseTomlFrontmatter(raw),
+      body: content.slice(tomlMatch[0].length).trim(),
+      raw,
+      format: 'toml',
+    };
+  }
+
+  if (JSON_FRONTMATTER_START.test(content)) {
+    const end = findJsonObjectEnd(content);
+    if (end === -1) {
+      throw new Error('Invalid JSON frontmatter: unterminated object');
+    }
+    const raw = content.slice(0, end);
+    return {
+      meta: parseJsonFrontmatter(raw),
+      body: content.slice(end).trim(),
+      raw,
+      format: 'json',
+    };
+  }
+
+  return { meta: {}, body: content, raw: null, format: null };
+}
+
+/**
+ * Extracts the frontmatter values of a markdown file.
+ *
+ * @throws {Error} If the frontmatter is not valid YAML or not a mapping
+ */
+export function extractMetadata(content: string): Meta {
+  return parseFrontmatter(content).meta;
+}
+
+function parseYamlFrontmatter(source: string): Meta {
+  let parsed: unknown;
+  try {
+    // The core schema keeps dates as the strings authors wrote, so templates
+    // and TOC cards print them unchanged
+    parsed = parseYaml(source, { schema: 'core' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid YAML frontmatter: ${message}`);
+  }
+
+  return toMeta(parsed);
+}
+
+function parseTomlFrontmatter(source: string): Meta {
+  let parsed: unknown;
+  try {
+    parsed = parseToml(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid TOML frontmatter: ${message}`);
+  }
+  // TOML has native dates; turn them back into strings like YAML and JSON
+  return toMeta(stringifyDates(parsed));
+}
+
+function parseJsonFrontmatter(source: string): Meta {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON frontmatter: ${message}`);
+  }
+  return toMeta(parsed);
+}
+
+function toMeta(parsed: unknown): Meta {
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Frontmatter must be a mapping of keys to values');
+  }
+  return { ...parsed } as Meta;
+}
+
+function stringifyDates(value: unknown): unknown {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    // Plain dates (no time of day) keep the short `YYYY-MM-DD` form
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringifyDates);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, stringifyDates(item)])
+    );
+  }
+  return value;
+}
+
+// Index just past the closing brace of the JSON object starting at index 0,
+// or -1 if the object never closes
+function findJsonObjectEnd(content: string): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+/** Value types a frontmatter field can be declared with. */
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'array'
+  | 'object';
+
+/** Constraints for a single frontmatter field. */
+export interface FieldSchema {
+  /** Expected value type */
+  type?: FieldType;
+  /** Whether the field must be present */
+  required?: boolean;
+  /** Allowed values */
+  enum?: unknown[];
+  /** Date format for `date` fields: `date` (YYYY-MM-DD, default) or `datetime` (ISO 8601) */
+  format?: 'date' | 'datetime';
+  /** Expected type of every item for `array` fields */
+  items?: FieldType;
+}
+
+/**
+ * Frontmatter schema for a content directory, declared in a `_schema.json`
+ * file inside that directory.
+ *
+ * @example
+ * ```json
+ * {
+ *   "fields": {
+ *     "title": { "type": "string", "required": true },
+ *     "date": { "type": "date", "required": true },
+ *     "status": { "enum": ["draft", "published"] },
+ *     "tags": { "type": "array", "items": "string" }
+ *   },
+ *   "additionalFields": false
+ * }
+ * ```
+ */
+export interface FrontmatterSchema {
+  fields: Record<string, FieldSchema>;
+  /** Whether fields not declared in `fields` are allowed (default: true) */
+  additionalFields?: boolean;
+}
+
+/** A single schema violation found in a file's frontmatter. */
+export interface FrontmatterIssue {
+  field: string;
+  /** 1-based line in the markdown file */
+  line: number;
+  message: string;
+}
+
+/**
+ * Checks parsed frontmatter against a schema and returns every violation.
+ */
+export function validateFrontmatter(
+  frontmatter: Frontmatter,
+  schema: FrontmatterSchema
+): FrontmatterIssue[] {
+  const issues: FrontmatterIssue[] = [];
+  const { meta } = frontmatter;
+
+  for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+    const line = findFieldLine(frontmatter, field);
+    const value = meta[field];
+
+    if (value === undefined || value === null) {
+      if (fieldSchema.required) {
+        issues.push({ field, line, message: 'required field is missing' });
+      }
+      continue;
+    }
+
+    if (fieldSchema.type && !matchesType(value, fieldSchema.type)) {
+      issues.push({
+        field,
+        line,
+        message: `expected ${fieldSchema.type}, got ${describe(value)}`,
+      });
+      continue;
+    }
+
+    if (fieldSchema.type === 'date' && !isValidDate(value, fieldSchema.format)) {
+      const format =
+        fieldSchema.format === 'datetime' ? 'ISO 8601 datetime' : 'YYYY-MM-DD';
+      issues.push({
+        field,
+        line,
+        message: `${JSON.stringify(value)} is not a valid date (${format})`,
+      });
+    }
+
+    if (fieldSchema.type === 'array' && fieldSchema.items) {
+      const itemType = fieldSchema.items;
+      const invalid = (value as unknown[]).find(
+        item => !matchesType(item, itemType)
+      );
+      if (invalid !== undefined) {
+        issues.push({
+          field,
+          line,
+          message: `expected every item to be ${itemType}, got ${describe(
+            invalid
+          )}`,
+        });
+      }
+    }
+
+    if (
+      fieldSchema.enum &&
+      !fieldSchema.enum.some(allowed => allowed === value)
+    ) {
+      issues.push({
+        field,
+        line,
+        message: `${JSON.stringify(value)} is not one of ${fieldSchema.enum
+          .map(allowed => JSON.stringify(allowed))
+          .join(', ')}`,
+      });
+    }
+  }
+
+  if (schema.additionalFields === false) {
+    for (const field of Object.keys(meta)) {
+      if (!(field in schema.fields)) {
+        issues.push({
+          field,
+          line: findFieldLine(frontmatter, field),
+          message: 'unknown field',
+        });
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return (
+        value !== null && typeof value === 'object' && !Array.isArray(value)
+      );
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number';
+    case 'date':
+    case 'string':
+      return typeof value === 'string';
+  }
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function isValidDate(value: unknown, format: FieldSchema['format']): boolean {
+  if (typeof value !== 'string') return false;
+
+  if (format === 'datetime') {
+    return (
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/.test(
+        value
+      ) && !Number.isNaN(Date.parse(value))
+    );
+  }
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  // Round-trip through Date to reject days like 2024-02-30
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+// Line of a top-level key in the file, falling back to the opening delimiter
+function findFieldLine(frontmatter: Frontmatter, field: string): number {
+  if (frontmatter.raw === null) return 1;
+
+  const key = field.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern =
+    frontmatter.format === 'json'
+      ? new RegExp(`^\\s*"${key}"\\s*:`)
+      : frontmatter.format === 'toml'
+      ? new RegExp(`^\\s*["']?${key}["']?\\s*=`)
+      : new RegExp(`^["']?${key}["']?\\s*:`);
+
+  const index = frontmatter.raw.split(/\r?\n/).findIndex(l => pattern.test(l));
+  if (index === -1) return 1;
+  // JSON frontmatter starts on line 1, YAML/TOML after the delimiter line
+  return index + (frontmatter.format === 'json' ? 1 : 2);
+}
@@ -0,0 +1,369 @@
+// Build-time syntax highlighting for code blocks using Prism's grammars,
+// the code fence options (titles, line numbers, highlighted lines, diffs)
+// and the stylesheet for both, with light and dark themes
+
+// @ts-types="npm:@types/prismjs@^1.26.5"
+import Prism from 'prismjs';
+import loadLanguages from 'prismjs/components/index.js';
+import components from 'prismjs/components.js';
+import { escapeHtml } from './markdown.ts';
+
+interface PrismComponent {
+  alias?: string | string[];
+}
+
+// Prism component ids by name and alias, e.g. `sh` → `bash`
+const LANGUAGE_IDS = new Map<string, string>();
+for (const [id, component] of Object.entries(
+  components.languages as Record<string, PrismComponent>
+)) {
+  if (id === 'meta') continue;
+  LANGUAGE_IDS.set(id, id);
+  for (const alias of [component.alias ?? []].flat()) {
+    LANGUAGE_IDS.set(alias, id);
+  }
+}
+
+// Unknown languages are reported by Prism on the console; they are simply
+// left unhighlighted here
+loadLanguages.silent = true;
+
+/**
+ * Highlights code with the grammar of the given language, returning HTML
+ * with `token` spans. Code in unknown languages is only escaped.
+ */
+export function highlightCode(code: string, language: string): string {
+  const id = LANGUAGE_IDS.get(language);
+  if (id && !Prism.languages[id]) loadLanguages([id]);
+  const grammar = id && Prism.languages[id];
+  return grammar ? Prism.highlight(code, grammar, id) : escapeHtml(code);
+}
+
+/** Options from the meta of a code fence. */
+export interface CodeBlockMeta {
+  /** File name shown above the code, from `title="build.ts"` */
+  title: string | null;
+  /** Line numbers to highlight, from ranges like `{3,7-9}` */
+  highlightLines: Set<number>;
+  /** Whether line numbers are shown, from `showLineNumbers` */
+  showLineNumbers: boolean;
+  /** Whether lines starting with `+` or `-` are added or removed lines */
+  diff: boolean;
+}
+
+// Ranges beyond any sensible code block are cut off
+const MAX_LINE_RANGE = 10_000;
+
+const reTitle = /(?:^|\s)title=(?:"([^"]*)"|'([^']*)'|(\S+))/;
+const reLineRanges = /\{([\d\s,-]+)\}/g;
+
+/**
+ * Parses the meta of a code fence (the info string after the language),
+ * e.g. `title="build.ts" {3,7-9} showLineNumbers diff`.
+ */
+export function parseCodeMeta(meta: string | null): CodeBlockMeta {
+  const source = meta ?? '';
+  const title = source.match(reTitle);
+
+  const highlightLines = new Set<number>();
+  for (const [, ranges] of source.matchAll(reLineRanges)) {
+    for (const range of ranges.split(',')) {
+      const [start, end = start] = range
+        .split('-')
+        .map(value => parseInt(value, 10));
+      if (isNaN(start) || isNaN(end)) continue;
+      for (let line = start; line <= Math.min(end, MAX_LINE_RANGE); line++) {
+        highlightLines.add(line);
+      }
+    }
+  }
+
+  // Flags are looked up outside the title, so `title="diff"` isn't one
+  const flags = source
+    .replace(reTitle, ' ')
+    .replace(reLineRanges, ' ')
+    .split(/\s+/);
+  return {
+    title: title ? (title[1] ?? title[2] ?? title[3]) : null,
+    highlightLines,
+    showLineNumbers: flags.includes('showLineNumbers'),
+    diff: flags.includes('diff'),
+  };
+}
+
+// Splits highlighted HTML into lines, closing the token spans still open at
+// the end of a line and reopening them on the next
+function splitLines(html: string): string[] {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = '';
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === '\n') {
+      lines.push(line + '</span>'.repeat(open.length));
+      line = open.join('');
+      continue;
+    }
+    if (part.startsWith('<span')) open.push(part);
+    else if (part === '</span>') open.pop();
+    line += part;
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * Highlights a code block line by line. Every line is wrapped in a
+ * `code-line` span, with the classes and attributes for the highlighted
+ * lines, line numbers and diff markers asked for in `meta`.
+ */
+export function highlightCodeLines(
+  code: string,
+  language: string,
+  meta: CodeBlockMeta
+): string {
+  const source = code.replace(/\n$/, '').split('\n');
+  // Diff lines start with `+`, `-` or a space (unchanged), like unified diffs
+  const changes = source.map(line =>
+    meta.diff && (line[0] === '+' || line[0] === '-') ? line[0] : null
+  );
+  const stripped = meta.diff
+    ? source.map(line => (/^[+ -]/.test(line) ? line.slice(1) : line))
+    : source;
+  const lines = splitLines(highlightCode(stripped.join('\n'), language));
+
+  const html = lines.map((line, i) => {
+    const number = i + 1;
+    const change = changes[i];
+    let classes = 'code-line';
+    if (meta.highlightLines.has(number)) classes += ' highlighted';
+    if (change) classes += change === '+' ? ' line-added' : ' line-removed';
+    const lineNumber = meta.showLineNumbers
+      ? ` data-line-number="${number}"`
+      : '';
+    const marker = meta.diff
+      ? `<span class="diff-marker" aria-hidden="true">${change ?? ' '}</span>`
+      : '';
+    return `<span class="${classes}"${lineNumber}>${marker}${line}</span>`;
+  });
+  return html.join('\n') + '\n';
+}
+
+/** Path of the highlighting stylesheet in the output directory. */
+export const HIGHLIGHT_CSS_PATH = 'assets/highlight.css';
+
+/**
+ * Token colors for highlighted code, following the page's `data-theme`, and
+ * the code block titles, line numbers, highlighted lines and diff markers.
+ */
+export const HIGHLIGHT_CSS = `/* Syntax highlighting for code blocks, generated by Astrodon */
+.code-block-title {
+  font-family: monospace;
+  font-weight: 600;
+  margin-right: auto;
+}
+
+.copy-status {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  overflow: hidden;
+  clip-path: inset(50%);
+  white-space: nowrap;
+}
+
+pre.has-lines > code {
+  display: grid;
+}
+
+.code-line {
+  display: block;
+  padding: 0 1rem;
+  margin: 0 -1rem;
+}
+
+.code-line:empty::after {
+  content: ' ';
+}
+
+.code-line[data-line-number]::before {
+  content: attr(data-line-number);
+  display: inline-block;
+  width: 2.5em;
+  margin-right: 1em;
+  text-align: right;
+  color: #8c959f;
+  user-select: none;
+}
+
+.diff-marker {
+  display: inline-block;
+  width: 1.5em;
+  user-select: none;
+}
+
+.code-line.highlighted {
+  background: rgba(84, 174, 255, 0.15);
+  box-shadow: inset 3px 0 0 #0969da;
+}
+
+.code-line.line-added {
+  background: rgba(46, 160, 67, 0.15);
+}
+
+.code-line.line-removed {
+  background: rgba(248, 81, 73, 0.15);
+}
+
+.code-line.line-added .diff-marker {
+  color: #1a7f37;
+}
+
+.code-line.line-removed .diff-marker {
+  color: #cf222e;
+}
+
+code[class*="language-"],
+pre:has(> code[class*="language-"]) {
+  color: #24292f;
+  background: #f6f8fa;
+}
+
+.token.comment,
+.token.prolog,
+.token.doctype,
+.token.cdata {
+  color: #6e7781;
+  font-style: italic;
+}
+
+.token.punctuation {
+  color: #57606a;
+}
+
+.token.property,
+.token.tag,
+.token.boolean,
+.token.number,
+.token.constant,
+.token.symbol,
+.token.deleted {
+  color: #0550ae;
+}
+
+.token.selector,
+.token.attr-name,
+.token.string,
+.token.char,
+.token.builtin,
+.token.inserted {
+  color: #0a3069;
+}
+
+.token.operator,
+.token.entity,
+.token.url {
+  color: #953800;
+}
+
+.token.atrule,
+.token.attr-value,
+.token.keyword {
+  color: #cf222e;
+}
+
+.token.function,
+.token.class-name {
+  color: #8250df;
+}
+
+.token.regex,
+.token.important,
+.token.variable {
+  color: #116329;
+}
+
+.token.important,
+.token.bold {
+  font-weight: bold;
+}
+
+.token.italic {
+  font-style: italic;
+}
+
+[data-theme="dark"] code[class*="language-"],
+[data-theme="dark"] pre:has(> code[class*="language-"]) {
+  color: #e6edf3;
+  background: #161b22;
+}
+
+[data-theme="dark"] .token.comment,
+[data-theme="dark"] .token.prolog,
+[data-theme="dark"] .token.doctype,
+[data-theme="dark"] .token.cdata {
+  color: #8b949e;
+}
+
+[data-theme="dark"] .token.punctuation {
+  color: #c9d1d9;
+}
+
+[data-theme="dark"] .token.property,
+[data-theme="dark"] .token.tag,
+[data-theme="dark"] .token.boolean,
+[data-theme="dark"] .token.number,
+[data-theme="dark"] .token.constant,
+[data-theme="dark"] .token.symbol,
+[data-theme="dark"] .token.deleted {
+  color: #79c0ff;
+}
+
+[data-theme="dark"] .token.selector,
+[data-theme="dark"] .token.attr-name,
+[data-theme="dark"] .token.string,
+[data-theme="dark"] .token.char,
+[data-theme="dark"] .token.builtin,
+[data-theme="dark"] .token.inserted {
+  color: #a5d6ff;
+}
+
+[data-theme="dark"] .token.operator,
+[data-theme="dark"] .token.entity,
+[data-theme="dark"] .token.url {
+  color: #ffa657;
+}
+
+[data-theme="dark"] .token.atrule,
+[data-theme="dark"] .token.attr-value,
+[data-theme="dark"] .token.keyword {
+  color: #ff7b72;
+}
+
+[data-theme="dark"] .token.function,
+[data-theme="dark"] .token.class-name {
+  color: #d2a8ff;
+}
+
+[data-theme="dark"] .token.regex,
+[data-theme="dark"] .token.important,
+[data-theme="dark"] .token.variable {
+  color: #7ee787;
+}
+
+[data-theme="dark"] .code-line[data-line-number]::before {
+  color: #6e7681;
+}
+
+[data-theme="dark"] .code-line.highlighted {
+  background: rgba(56, 139, 253, 0.15);
+  box-shadow: inset 3px 0 0 #58a6ff;
+}
+
+[data-theme="dark"] .code-line.line-added .diff-marker {
+  color: #3fb950;
+}
+
+[data-theme="dark"] .code-line.line-removed .diff-marker {
+  color: #f85149;
+}
+`;
@@ -0,0 +1,322 @@
+// Includes for markdown content: `{{include:path}}` lines are replaced by a
+// fenced code block with the file, a line range or a region, and
+// `{{partial:path}}` by another markdown file
+
+import { basename, dirname, extname, relative, resolve } from '@std/path';
+import { codeRanges, parseProps } from './components.ts';
+import { type Frontmatter, parseFrontmatter } from './frontmatter.ts';
+
+/** An `{{include:...}}` directive found in a markdown file. */
+export interface Include {
+  /** Absolute path of the included file */
+  path: string;
+  /** Part of the file after `#`: `L10-L42`, `L10` or a region name */
+  selector: string | null;
+  /** The directive as written, e.g. `{{include:../src/a.ts#L1-L5}}` */
+  directive: string;
+  /** 1-based line of the directive in the markdown */
+  line: number;
+}
+
+// Directives sit on a line of their own; the indentation is kept so
+// includes work inside list items
+const INCLUDE_LINE =
+  /^([ \t]*)(\{\{include:([^}#\s]+)(?:#([^}\s]+))?\}\})[ \t]*$/gm;
+const LINE_RANGE = /^L(\d+)(?:-L?(\d+))?$/;
+const REGION_START = /#region\b[ \t]*(\S*)/;
+const REGION_END = /#endregion\b/;
+
+// Code fence languages for extensions that aren't a language name themselves
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  cjs: 'javascript',
+  cts: 'typescript',
+  htm: 'html',
+  kt: 'kotlin',
+  mjs: 'javascript',
+  mts: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  sh: 'bash',
+};
+
+// Whether an offset lies in a code block or code span, where directives are
+// left alone so the syntax can be documented
+function inCode(markdown: string): (offset: number) => boolean {
+  const ranges = codeRanges(markdown);
+  return offset =>
+    ranges.some(([start, end]) => offset >= start && offset < end);
+}
+
+/**
+ * Finds the include directives of a markdown file, with paths resolved
+ * against the directory of that file. Directives in code blocks and spans are
+ * skipped.
+ */
+export function findIncludes(markdown: string, filePath: string): Include[] {
+  const includes: Include[] = [];
+  const isCode = inCode(markdown);
+  for (const match of markdown.matchAll(INCLUDE_LINE)) {
+    if (isCode(match.index)) continue;
+    includes.push({
+      path: resolve(dirname(filePath), match[3]),
+      selector: match[4] ?? null,
+      directive: match[2],
+      line: markdown.slice(0, match.index).split('\n').length,
+    });
+  }
+  return includes;
+}
+
+/**
+ * Replaces the include directives of a markdown file with fenced code
+ * blocks holding the included source. Directives in code blocks and spans are
+ * left alone.
+ *
+ * @throws {Error} If an included file, line range or region doesn't exist
+ */
+export async function expandIncludes(
+  markdown: string,
+  filePath: string
+): Promise<string> {
+  const includes = findIncludes(markdown, filePath);
+  if (includes.length === 0) return markdown;
+
+  const blocks = new Map<string, string>();
+  for (const include of includes) {
+    const fail = (reason: string): never => {
+      throw new Error(
+        `${filePath}:${include.line} ${include.directive}: ${reason}`
+      );
+    };
+
+    let source: string;
+    try {
+      source = await Deno.readTextFile(include.path);
+    } catch {
+      return fail(`file not found: ${include.path}`);
+    }
+    const snippet = selectSnippet(source, include.selector, fail);
+    blocks.set(include.directive, toCodeBlock(snippet, include.path));
+  }
+
+  const isCode = inCode(markdown);
+  return markdown.replace(
+    INCLUDE_LINE,
+    (match, indent, directive, _path, _selector, offset: number) =>
+      isCode(offset)
+        ? match
+        : blocks
+            .get(directive)!
+            .split('\n')
+            .map(line => (line ? indent + line : line))
+            .join('\n')
+  );
+}
+
+// The part of a file picked by an include selector, without the trailing
+// newline; line ranges and regions are dedented
+function selectSnippet(
+  source: string,
+  selector: string | null,
+  fail: (reason: string) => never
+): string {
+  const lines = source.replace(/\r?\n$/, '').split(/\r?\n/);
+  if (selector === null) return lines.join('\n');
+
+  const range = selector.match(LINE_RANGE);
+  if (range) {
+    const start = parseInt(range[1], 10);
+    const end = range[2] ? parseInt(range[2], 10) : start;
+    if (start < 1 || end < start || end > lines.length) {
+      fail(
+        `lines ${start}-${end} are outside the file (${lines.length} lines)`
+      );
+    }
+    return dedent(lines.slice(start - 1, end));
+  }
+
+  // Regions may nest; the markers of inner regions are left out
+  const start = lines.findIndex(
+    line => line.match(REGION_START)?.[1] === selector
+  );
+  if (start === -1) fail(`region "${selector}" not found`);
+  let depth = 1;
+  const region: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (REGION_START.test(line)) {
+      depth++;
+    } else if (REGION_END.test(line)) {
+      if (--depth === 0) return dedent(region);
+    } else {
+      region.push(line);
+    }
+  }
+  return fail(`region "${selector}" has no #endregion`);
+}
+
+// Removes the indentation shared by all non-blank lines
+function dedent(lines: string[]): string {
+  const indents = lines
+    .filter(line => line.trim() !== '')
+    .map(line => line.match(/^[ \t]*/)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(indent)).join('\n');
+}
+
+// Fenced code block for a snippet, with a fence longer than any backtick
+// run inside it and the file name as title
+function toCodeBlock(snippet: string, path: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(snippet.match(/`+/g) ?? []).map(run => run.length)
+  );
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const extension = extname(path).slice(1).toLowerCase();
+  const language = EXTENSION_LANGUAGES[extension] ?? extension;
+  const title = basename(path).replace(/"/g, '');
+  return `${fence}${language} title="${title}"\n${snippet}\n${fence}`;
+}
+
+/** Result of expanding the partials of a markdown file. */
+export interface ExpandedPartials {
+  /** Markdown with the partials, and the files they include, inlined */
+  markdown: string;
+  /** Absolute paths of the partials and the files they include */
+  files: string[];
+}
+
+// `{{partial:path key="value" key=value}}`; parameters are used in the
+// partial as `{{param:key}}`
+const PARTIAL =
+  /\{\{partial:([^}\s]+)((?:[ \t]+[\w-]+=(?:"[^"]*"|'[^']*'|[^\s"'}]+))*)[ \t]*\}\}/g;
+const PARAM = /\{\{param:([\w-]+)\}\}/g;
+
+/**
+ * Replaces the partial directives of a markdown file with the content of
+ * the partials, so they are parsed as part of the page. Paths starting with
+ * `.` are relative to the file, others to `partialsDir`. The frontmatter of
+ * a partial holds the defaults of its parameters. Directives in code blocks
+ * and code spans are left alone, so the syntax can be documented.
+ *
+ * @throws {Error} If a partial or parameter doesn't exist, or partials
+ * include each other in a cycle
+ */
+export async function expandPartials(
+  markdown: string,
+  filePath: string,
+  partialsDir: string
+): Promise<ExpandedPartials> {
+  const files = new Set<string>();
+  const expanded = await expandPartialsOf(
+    markdown,
+    filePath,
+    partialsDir,
+    [resolve(filePath)],
+    files
+  );
+  return { markdown: expanded, files: [...files] };
+}
+
+async function expandPartialsOf(
+  markdown: string,
+  filePath: string,
+  partialsDir: string,
+  stack: string[],
+  files: Set<string>
+): Promise<string> {
+  const lines = markdown.split('\n');
+  const isCode = inCode(markdown);
+  let lineStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const offset = lineStart;
+    lineStart += lines[i].length + 1;
+    if (!lines[i].includes('{{partial:')) continue;
+
+    let line = '';
+    let last = 0;
+    for (const match of lines[i].matchAll(PARTIAL)) {
+      if (isCode(offset + match.index)) continue;
+      const [directive, path, argumentList] = match;
+      const fail = (reason: string): never => {
+        throw new Error(`${filePath}:${i + 1} ${directive}: ${reason}`);
+      };
+
+      const partialPath = path.startsWith('.')
+        ? resolve(dirname(filePath), path)
+        : resolve(partialsDir, path);
+      if (stack.includes(partialPath)) {
+        const cycle = [...stack, partialPath].map(file =>
+          relative(Deno.cwd(), file)
+        );
+        fail(`partial cycle: ${cycle.join(' → ')}`);
+      }
+
+      let source: string;
+      try {
+        source = await Deno.readTextFile(partialPath);
+      } catch {
+        return fail(`partial not found: ${partialPath}`);
+      }
+      files.add(partialPath);
+
+      let partial: Frontmatter;
+      try {
+        partial = parseFrontmatter(source);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return fail(`${partialPath}: ${message}`);
+      }
+      const { meta, body } = partial;
+      const params: Record<string, unknown> = {
+        ...meta,
+        ...parseProps(argumentList),
+      };
+      const content = body.replace(PARAM, (_match, name: string) =>
+        name in params
+          ? String(params[name])
+          : fail(`param "${name}" is not set`)
+      );
+
+      // Nested partials and includes resolve against the partial itself
+      const nested = await expandPartialsOf(
+        content,
+        partialPath,
+        partialsDir,
+        [...stack, partialPath],
+        files
+      );
+      for (const include of findIncludes(nested, partialPath)) {
+        files.add(include.path);
+      }
+      const expanded = await expandIncludes(nested, partialPath);
+
+      const before = lines[i].slice(last, match.index);
+      const indent = continuationIndent(line + before);
+      line +=
+        before +
+        expanded
+          .split('\n')
+          .map((partialLine, n) =>
+            n > 0 && partialLine ? indent + partialLine : partialLine
+          )
+          .join('\n');
+      last = match.index + directive.length;
+    }
+    lines[i] = line + lines[i].slice(last);
+  }
+
+  return lines.join('\n');
+}
+
+// Prefix for the following lines of a partial, so a directive that starts a
+// line, list item or blockquote keeps all of the partial inside it
+function continuationIndent(prefix: string): string {
+  if (/^[ \t]*$/.test(prefix)) return prefix;
+  if (/^[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+$/.test(prefix)) {
+    return ' '.repeat(prefix.length);
+  }
+  if (/^(?:[ \t]*>)+[ \t]?$/.test(prefix)) return prefix;
+  return '';
+}
@@ -0,0 +1,107 @@
+// Page layouts: HTML files with `{{title}}`, `{{navigation}}` and
+// `{{content}}` placeholders. A layout starting with `{{extends:base}}`
+// fills the `{{slot:name}}` placeholders of its base layout with
+// `{{slot:name}}...{{/slot}}` blocks.
+
+import { dirname, join } from '@std/path';
+
+/** Where layouts come from. */
+export interface LayoutOptions {
+  /** Directory with the `name.html` layouts */
+  dir: string;
+  /** Markup of layouts that have no file, by name */
+  fallbacks?: Record<string, string>;
+}
+
+const EXTENDS = /^\s*\{\{extends:([\w/-]+)\}\}/;
+const SLOT_FILL = /\{\{slot:([\w-]+)\}\}\n?([\s\S]*?)\{\{\/slot\}\}/g;
+const SLOT = /\{\{slot:([\w-]+)\}\}/g;
+
+// Unfilled slots are left empty, except the content slot, which holds the
+// page content unless a layout wraps it
+const SLOT_DEFAULTS: Record<string, string> = { content: '{{content}}' };
+
+/**
+ * Loads a layout with the layouts it extends, their slots filled in. A
+ * layout extending its own name extends the fallback it replaces, so
+ * `layouts/default.html` can build on the built-in default layout.
+ *
+ * @throws {Error} If a layout doesn't exist or layouts extend each other in
+ * a cycle
+ */
+export async function loadLayout(
+  name: string,
+  options: LayoutOptions
+): Promise<string> {
+  return await resolveLayout(name, options, {}, []);
+}
+
+/**
+ * Finds the layout named after the directory of a page (relative to the
+ * content directory) or its closest parent, e.g. `layouts/blog.html` for
+ * `blog/2024/post.md`; null if there is none.
+ */
+export async function findDirectoryLayout(
+  directory: string,
+  options: LayoutOptions
+): Promise<string | null> {
+  for (let dir = directory; dir !== '.' && dir !== '/'; dir = dirname(dir)) {
+    try {
+      if ((await Deno.stat(join(options.dir, `${dir}.html`))).isFile) {
+        return dir;
+      }
+    } catch {
+      // No layout for this directory; try its parent
+    }
+  }
+  return null;
+}
+
+async function resolveLayout(
+  name: string,
+  options: LayoutOptions,
+  fills: Record<string, string>,
+  chain: string[]
+): Promise<string> {
+  let source: string | undefined;
+  let key = name;
+  if (chain.at(-1) !== name) {
+    try {
+      source = await Deno.readTextFile(join(options.dir, `${name}.html`));
+    } catch {
+      // Not in the layouts directory; a fallback may exist
+    }
+  }
+  if (source === undefined) {
+    source = options.fallbacks?.[name];
+    key = `${name} (built-in)`;
+  }
+  if (source === undefined) {
+    throw new Error(`Layout "${name}" not found in ${options.dir}`);
+  }
+  if (chain.includes(key)) {
+    throw new Error(`Layout cycle: ${[...chain, key].join(' → ')}`);
+  }
+
+  const base = source.match(EXTENDS)?.[1];
+  if (!base) return fillSlots(source, fills);
+
+  // Slots filled further down the chain win over the ones filled here
+  const ownFills: Record<string, string> = {};
+  for (const [, slot, content] of source.matchAll(SLOT_FILL)) {
+    ownFills[slot] = content;
+  }
+  return await resolveLayout(base, options, { ...ownFills, ...fills }, [
+    ...chain,
+    key,
+  ]);
+}
+
+// Fills the slots of a base layout; fills may have slots of their own
+function fillSlots(html: string, fills: Record<string, string>): string {
+  return html.replace(SLOT, (_placeholder, slot: string) => {
+    if (!Object.hasOwn(fills, slot)) return SLOT_DEFAULTS[slot] ?? '';
+    const { [slot]: fill, ...rest } = fills;
+    return fillSlots(fill, rest);
+  });
+}
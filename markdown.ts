@@ -0,0 +1,2542 @@
+// Markdown parsing for content files: a CommonMark block and inline parser
+// producing a document tree, plus the GFM extensions (tables, task lists,
+// strikethrough, footnotes), definition lists, abbreviations and math
+
+import entityList from '@std/html/named-entity-list.json' with { type: 'json' };
+
+/** Column alignment of a table, from its delimiter row. */
+export type Align = 'left' | 'right' | 'center' | null;
+
+/** The parsed document. */
+export interface Root {
+  type: 'root';
+  children: BlockContent[];
+}
+
+export interface Paragraph {
+  type: 'paragraph';
+  children: PhrasingContent[];
+}
+
+export interface Heading {
+  type: 'heading';
+  /** Heading level, 1 to 6 */
+  depth: number;
+  children: PhrasingContent[];
+}
+
+export interface ThematicBreak {
+  type: 'thematicBreak';
+}
+
+export interface Blockquote {
+  type: 'blockquote';
+  children: BlockContent[];
+}
+
+export interface List {
+  type: 'list';
+  ordered: boolean;
+  /** Number of the first item of an ordered list, null for bullet lists */
+  start: number | null;
+  /** Whether items are separated by blank lines (rendered with `<p>`) */
+  spread: boolean;
+  children: ListItem[];
+}
+
+export interface ListItem {
+  type: 'listItem';
+  /** Task list state: true for `[x]`, false for `[ ]`, null otherwise */
+  checked: boolean | null;
+  children: BlockContent[];
+}
+
+/** A fenced or indented code block. */
+export interface Code {
+  type: 'code';
+  /** First word of the fence info string, e.g. `ts` */
+  lang: string | null;
+  /** Rest of the info string after the language */
+  meta: string | null;
+  value: string;
+}
+
+/** A display math block (`$$` lines or a `math` code fence), as TeX. */
+export interface Math {
+  type: 'math';
+  value: string;
+}
+
+/** Raw HTML, either a block or inline. */
+export interface Html {
+  type: 'html';
+  value: string;
+}
+
+export interface Table {
+  type: 'table';
+  align: Align[];
+  /** The first row is the header row */
+  children: TableRow[];
+}
+
+export interface TableRow {
+  type: 'tableRow';
+  children: TableCell[];
+}
+
+export interface TableCell {
+  type: 'tableCell';
+  children: PhrasingContent[];
+}
+
+export interface DefinitionList {
+  type: 'definitionList';
+  /** Whether definitions are separated by blank lines */
+  spread: boolean;
+  children: (DefinitionTerm | DefinitionDescription)[];
+}
+
+export interface DefinitionTerm {
+  type: 'definitionTerm';
+  children: PhrasingContent[];
+}
+
+export interface DefinitionDescription {
+  type: 'definitionDescription';
+  children: BlockContent[];
+}
+
+export interface FootnoteDefinition {
+  type: 'footnoteDefinition';
+  /** Normalized label, used to match references */
+  identifier: string;
+  /** Label as written, e.g. `1` for `[^1]:` */
+  label: string;
+  children: BlockContent[];
+}
+
+export interface Text {
+  type: 'text';
+  value: string;
+}
+
+export interface Emphasis {
+  type: 'emphasis';
+  children: PhrasingContent[];
+}
+
+export interface Strong {
+  type: 'strong';
+  children: PhrasingContent[];
+}
+
+/** Strikethrough text (`~~text~~`). */
+export interface Delete {
+  type: 'delete';
+  children: PhrasingContent[];
+}
+
+export interface InlineCode {
+  type: 'inlineCode';
+  value: string;
+}
+
+/** Math inside a paragraph: `$...$`, or `$$...$$` for display math. */
+export interface InlineMath {
+  type: 'inlineMath';
+  /** Whether the math was written with `$$` and is shown as a block */
+  display: boolean;
+  value: string;
+}
+
+/** A hard line break. */
+export interface Break {
+  type: 'break';
+}
+
+export interface Link {
+  type: 'link';
+  url: string;
+  title: string | null;
+  children: PhrasingContent[];
+}
+
+export interface Image {
+  type: 'image';
+  url: string;
+  title: string | null;
+  /** Plain text of the image description */
+  alt: string;
+}
+
+export interface FootnoteReference {
+  type: 'footnoteReference';
+  /** Normalized label, matching a {@link FootnoteDefinition} */
+  identifier: string;
+  label: string;
+}
+
+/** A word defined by an abbreviation line (`\_[HTML]: HyperText ...`). */
+export interface Abbreviation {
+  type: 'abbreviation';
+  title: string;
+  children: Text[];
+}
+
+export type BlockContent =
+  | Paragraph
+  | Heading
+  | ThematicBreak
+  | Blockquote
+  | List
+  | Code
+  | Math
+  | Html
+  | Table
+  | DefinitionList
+  | FootnoteDefinition;
+
+export type PhrasingContent =
+  | Text
+  | Emphasis
+  | Strong
+  | Delete
+  | InlineCode
+  | InlineMath
+  | Break
+  | Link
+  | Image
+  | Html
+  | FootnoteReference
+  | Abbreviation;
+
+/** Any node of the document tree. */
+export type MarkdownNode =
+  | Root
+  | BlockContent
+  | ListItem
+  | TableRow
+  | TableCell
+  | DefinitionTerm
+  | DefinitionDescription
+  | PhrasingContent;
+
+/** Nodes that have children. */
+export type ParentNode = Extract<MarkdownNode, { children: unknown[] }>;
+
+// --- SHARED PATTERNS ---
+
+const ESCAPABLE = '[!"#$%&\'()*+,./:;<=>?@[\\\\\\]^_`{|}~-]';
+const ENTITY = '&(?:#x[a-f0-9]{1,6}|#[0-9]{1,7}|[a-z][a-z0-9]{1,31});';
+
+const TAG_NAME = '[A-Za-z][A-Za-z0-9-]*';
+const ATTRIBUTE_NAME = '[a-zA-Z_:][a-zA-Z0-9:._-]*';
+const ATTRIBUTE_VALUE = '(?:[^"\'=<>`\\x00-\\x20]+|\'[^\']*\'|"[^"]*")';
+const ATTRIBUTE = `(?:\\s+${ATTRIBUTE_NAME}(?:\\s*=\\s*${ATTRIBUTE_VALUE})?)`;
+const OPEN_TAG = `<${TAG_NAME}${ATTRIBUTE}*\\s*/?>`;
+const CLOSE_TAG = `</${TAG_NAME}\\s*[>]`;
+const HTML_TAG =
+  `(?:${OPEN_TAG}|${CLOSE_TAG}|<!-->|<!--->|<!--[\\s\\S]*?-->` +
+  '|[<][?][\\s\\S]*?[?][>]|<![A-Za-z]+[^>]*>|<!\\[CDATA\\[[\\s\\S]*?\\]\\]>)';
+
+const reEntityOrEscapedChar = new RegExp(`\\\\${ESCAPABLE}|${ENTITY}`, 'gi');
+const reEscapable = new RegExp(`^${ESCAPABLE}`);
+const reEntityHere = new RegExp(`^${ENTITY}`, 'i');
+const reHtmlTag = new RegExp(`^${HTML_TAG}`, 'i');
+
+const reNonSpace = /[^ \t\f\v\r\n]/;
+const reLineEnding = /\r\n|\n|\r/;
+const reUnicodeWhitespace = /^[\t\n\f\r\p{Zs}]/u;
+const rePunctuation = /^[\p{P}\p{S}]/u;
+
+// Named entities are looked up in the full HTML5 list (`&amp;` style keys)
+const namedEntities = entityList as Record<string, string>;
+
+function decodeEntity(entity: string): string {
+  if (entity[1] === '#') {
+    const hex = entity[2] === 'x' || entity[2] === 'X';
+    const code = parseInt(entity.slice(hex ? 3 : 2, -1), hex ? 16 : 10);
+    const invalid =
+      code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff);
+    return String.fromCodePoint(invalid ? 0xfffd : code);
+  }
+  return namedEntities[entity] ?? entity;
+}
+
+// Resolves backslash escapes and entities in link destinations, titles
+// and info strings
+function unescapeString(value: string): string {
+  if (!value.includes('\\') && !value.includes('&')) return value;
+  return value.replace(reEntityOrEscapedChar, match =>
+    match[0] === '\\' ? match[1] : decodeEntity(match)
+  );
+}
+
+const URL_SAFE = /[A-Za-z0-9;/?:@&=+$,\-_.!~*'()#]/;
+
+// Percent-encodes a URL, keeping existing %XX escapes intact
+function normalizeUrl(url: string): string {
+  let result = '';
+  for (let i = 0; i < url.length; i++) {
+    const char = url[i];
+    if (char === '%' && /^[0-9a-fA-F]{2}$/.test(url.slice(i + 1, i + 3))) {
+      result += url.slice(i, i + 3);
+      i += 2;
+    } else if (URL_SAFE.test(char)) {
+      result += char;
+    } else {
+      const code = url.charCodeAt(i);
+      if (code >= 0xd800 && code <= 0xdbff && i + 1 < url.length) {
+        result += encodeURIComponent(url.slice(i, i + 2));
+        i++;
+      } else if (code >= 0xd800 && code <= 0xdfff) {
+        result += '%EF%BF%BD';
+      } else {
+        result += encodeURIComponent(char);
+      }
+    }
+  }
+  return result;
+}
+
+// Case-folds a link label so `[Foo Bar]` matches `[foo  bar]`
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase().toUpperCase();
+}
+
+function isSpaceOrTab(char: string | undefined): boolean {
+  return char === ' ' || char === '\t';
+}
+
+function isBlank(value: string): boolean {
+  return !reNonSpace.test(value);
+}
+
+/** Escapes text for use in HTML content and attribute values. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// --- PARSE TREE ---
+
+type NodeKind =
+  | 'document'
+  | 'blockquote'
+  | 'list'
+  | 'item'
+  | 'paragraph'
+  | 'heading'
+  | 'thematicBreak'
+  | 'code'
+  | 'html'
+  | 'table'
+  | 'tableRow'
+  | 'tableCell'
+  | 'definitionList'
+  | 'definitionTerm'
+  | 'definitionDescription'
+  | 'footnoteDefinition'
+  | 'text'
+  | 'softbreak'
+  | 'linebreak'
+  | 'emphasis'
+  | 'strong'
+  | 'delete'
+  | 'inlineCode'
+  | 'inlineMath'
+  | 'link'
+  | 'image'
+  | 'inlineHtml'
+  | 'footnoteReference';
+
+interface ListData {
+  type: 'bullet' | 'ordered';
+  bulletChar: string | null;
+  start: number | null;
+  delimiter: string | null;
+  markerOffset: number;
+  padding: number;
+}
+
+interface Fence {
+  char: string;
+  length: number;
+  offset: number;
+  // Closing line of `{{htmlcode}}` and `$$` blocks, which don't use fence
+  // characters
+  closing: string | null;
+}
+
+interface LinkReference {
+  url: string;
+  title: string | null;
+}
+
+// Mutable doubly linked tree used while parsing; converted to the plain
+// MarkdownNode tree once the whole document is parsed
+class ParseNode {
+  parent: ParseNode | null = null;
+  firstChild: ParseNode | null = null;
+  lastChild: ParseNode | null = null;
+  prev: ParseNode | null = null;
+  next: ParseNode | null = null;
+  open = true;
+  startLine = 0;
+  endLine = 0;
+  // Raw text of leaf blocks, literal value of inlines
+  content = '';
+  level = 0;
+  listData: ListData | null = null;
+  tight = true;
+  fence: Fence | null = null;
+  info: string | null = null;
+  htmlBlockType = 0;
+  align: Align[] = [];
+  label = '';
+  checked: boolean | null = null;
+  url = '';
+  title: string | null = null;
+  display = false;
+
+  constructor(public kind: NodeKind) {}
+
+  appendChild(child: ParseNode) {
+    child.unlink();
+    child.parent = this;
+    if (this.lastChild) {
+      this.lastChild.next = child;
+      child.prev = this.lastChild;
+    } else {
+      this.firstChild = child;
+    }
+    this.lastChild = child;
+  }
+
+  insertAfter(sibling: ParseNode) {
+    sibling.unlink();
+    sibling.next = this.next;
+    if (sibling.next) sibling.next.prev = sibling;
+    sibling.prev = this;
+    this.next = sibling;
+    sibling.parent = this.parent;
+    if (sibling.parent && !sibling.next) sibling.parent.lastChild = sibling;
+  }
+
+  unlink() {
+    if (this.prev) this.prev.next = this.next;
+    else if (this.parent) this.parent.firstChild = this.next;
+    if (this.next) this.next.prev = this.prev;
+    else if (this.parent) this.parent.lastChild = this.prev;
+    this.parent = null;
+    this.next = null;
+    this.prev = null;
+  }
+}
+
+function textNode(value: string): ParseNode {
+  const node = new ParseNode('text');
+  node.content = value;
+  return node;
+}
+
+// --- BLOCK PARSING ---
+
+const CODE_INDENT = 4;
+
+const reATXHeadingMarker = /^#{1,6}(?:[ \t]+|$)/;
+const reCodeFence = /^`{3,}(?!.*`)|^~{3,}/;
+const reClosingCodeFence = /^(?:`{3,}|~{3,})(?=[ \t]*$)/;
+// Code blocks opened and closed by fixed lines instead of fence characters
+const FIXED_FENCES = [
+  { open: /^\{\{htmlcode\}\}[ \t]*$/, closing: '{{/htmlcode}}', info: 'html' },
+  { open: /^\$\$[ \t]*$/, closing: '$$', info: 'math' },
+];
+const reSetextHeadingLine = /^(?:=+|-+)[ \t]*$/;
+const reThematicBreak =
+  /^(?:\*[ \t]*){3,}$|^(?:_[ \t]*){3,}$|^(?:-[ \t]*){3,}$/;
+const reBulletListMarker = /^[*+-]/;
+const reOrderedListMarker = /^(\d{1,9})([.)])/;
+const reTableDelimiterRow =
+  /^\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const reFootnoteDefinition = /^\[\^([^\]\s][^\]]*)\]:/;
+const reDefinitionMarker = /^:(?=[ \t]|$)/;
+const reTaskListMarker = /^\[([ xX])\](?=[ \t\n]|$)[ \t]*/;
+const reAbbreviation = /^\\_\[(.+?)\]:[ \t]*(.+)$/;
+
+const reHtmlBlockOpen = [
+  /./, // Block types are 1-based
+  /^<(?:script|pre|textarea|style)(?:\s|>|$)/i,
+  /^<!--/,
+  /^<[?]/,
+  /^<![A-Za-z]/,
+  /^<!\[CDATA\[/,
+  /^<[/]?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[123456]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(?:\s|[/]?[>]|$)/i,
+  new RegExp(`^(?:${OPEN_TAG}|${CLOSE_TAG})\\s*$`, 'i'),
+];
+
+const reHtmlBlockClose = [
+  /./,
+  /<\/(?:script|pre|textarea|style)>/i,
+  /-->/,
+  /\?>/,
+  />/,
+  /\]\]>/,
+];
+
+// Result of trying to continue an open block on the current line;
+// 'consumed' means the whole line was used up (a closing code fence)
+type ContinueResult = 'matched' | 'failed' | 'consumed';
+
+// Result of trying to start a new block on the current line: none, a
+// container that may hold more blocks, or a leaf that takes the rest
+type StartResult = 'none' | 'container' | 'leaf';
+
+interface BlockBehavior {
+  continue(parser: BlockParser, block: ParseNode): ContinueResult;
+  finalize(parser: BlockParser, block: ParseNode): void;
+  canContain(kind: NodeKind): boolean;
+  acceptsLines: boolean;
+}
+
+// A block ends with a blank line when the next sibling doesn't start on
+// the line right after it
+function endsWithBlankLine(block: ParseNode): boolean {
+  return block.next !== null && block.endLine !== block.next.startLine - 1;
+}
+
+// Loose when any item or any block inside an item is followed by a blank line
+function isTight(list: ParseNode): boolean {
+  for (let item = list.firstChild; item; item = item.next) {
+    if (item.next && endsWithBlankLine(item)) return false;
+    for (let child = item.firstChild; child; child = child.next) {
+      if (child.next && endsWithBlankLine(child)) return false;
+    }
+  }
+  return true;
+}
+
+// Containers whose content is indented by their marker width
+function continueIndented(
+  parser: BlockParser,
+  block: ParseNode,
+  width: number
+): ContinueResult {
+  if (parser.blank) {
+    if (block.firstChild === null) return 'failed';
+    parser.advanceNextNonspace();
+  } else if (parser.indent >= width) {
+    parser.advanceOffset(width, true);
+  } else {
+    return 'failed';
+  }
+  return 'matched';
+}
+
+const noop = () => {};
+
+const BLOCKS: Record<string, BlockBehavior> = {
+  document: {
+    continue: () => 'matched',
+    finalize: noop,
+    canContain: kind => kind !== 'item' && kind !== 'definitionDescription',
+    acceptsLines: false,
+  },
+  blockquote: {
+    continue(parser) {
+      if (parser.indented || parser.peekNextNonspace() !== '>') {
+        return 'failed';
+      }
+      parser.advanceNextNonspace();
+      parser.advanceOffset(1, false);
+      if (isSpaceOrTab(parser.currentLine[parser.offset])) {
+        parser.advanceOffset(1, true);
+      }
+      return 'matched';
+    },
+    finalize: noop,
+    canContain: kind => kind !== 'item' && kind !== 'definitionDescription',
+    acceptsLines: false,
+  },
+  list: {
+    continue: () => 'matched',
+    finalize(_parser, block) {
+      block.tight = isTight(block);
+      block.endLine = block.lastChild!.endLine;
+    },
+    canContain: kind => kind === 'item',
+    acceptsLines: false,
+  },
+  item: {
+    continue(parser, block) {
+      const { markerOffset, padding } = block.listData!;
+      return continueIndented(parser, block, markerOffset + padding);
+    },
+    finalize(_parser, block) {
+      block.endLine = block.lastChild
+        ? block.lastChild.endLine
+        : block.startLine;
+    },
+    canContain: kind => kind !== 'item' && kind !== 'definitionDescription',
+    acceptsLines: false,
+  },
+  definitionList: {
+    continue: () => 'matched',
+    finalize(_parser, block) {
+      block.tight = isTight(block);
+      block.endLine = block.lastChild!.endLine;
+    },
+    canContain: kind => kind === 'definitionDescription',
+    acceptsLines: false,
+  },
+  definitionTerm: {
+    continue: () => 'failed',
+    finalize: noop,
+    canContain: () => false,
+    acceptsLines: false,
+  },
+  definitionDescription: {
+    continue(parser, block) {
+      const { markerOffset, padding } = block.listData!;
+      return continueIndented(parser, block, markerOffset + padding);
+    },
+    finalize(_parser, block) {
+      block.endLine = block.lastChild
+        ? block.lastChild.endLine
+        : block.startLine;
+    },
+    canContain: kind => kind !== 'item' && kind !== 'definitionDescription',
+    acceptsLines: false,
+  },
+  footnoteDefinition: {
+    continue: (parser, block) => continueIndented(parser, block, CODE_INDENT),
+    finalize: noop,
+    canContain: kind => kind !== 'item' && kind !== 'definitionDescription',
+    acceptsLines: false,
+  },
+  heading: {
+    continue: () => 'failed',
+    finalize: noop,
+    canContain: () => false,
+    acceptsLines: false,
+  },
+  thematicBreak: {
+    continue: () => 'failed',
+    finalize: noop,
+    canContain: () => false,
+    acceptsLines: false,
+  },
+  code: {
+    continue(parser, block) {
+      const line = parser.currentLine;
+      const fence = block.fence;
+      if (fence) {
+        const rest = line.slice(parser.nextNonspace);
+        const closes = fence.closing
+          ? rest.trimEnd() === fence.closing
+          : rest[0] === fence.char &&
+            (rest.match(reClosingCodeFence)?.[0].length ?? 0) >= fence.length;
+        if (parser.indent <= 3 && closes) {
+          parser.finalize(block, parser.lineNumber);
+          return 'consumed';
+        }
+        // Skip the fence's own indentation on content lines
+        let i = fence.offset;
+        while (i > 0 && isSpaceOrTab(line[parser.offset])) {
+          parser.advanceOffset(1, true);
+          i--;
+        }
+      } else if (parser.indent >= CODE_INDENT) {
+        parser.advanceOffset(CODE_INDENT, true);
+      } else if (parser.blank) {
+        parser.advanceNextNonspace();
+      } else {
+        return 'failed';
+      }
+      return 'matched';
+    },
+    finalize(_parser, block) {
+      if (block.fence) {
+        const newline = block.content.indexOf('\n');
+        const infoLine = block.content.slice(0, newline);
+        block.info ??= unescapeString(infoLine.trim());
+        block.content = block.content.slice(newline + 1);
+      } else {
+        const lines = block.content.split('\n');
+        while (lines.length > 0 && isBlank(lines[lines.length - 1])) {
+          lines.pop();
+        }
+        block.content = lines.join('\n') + '\n';
+      }
+    },
+    canContain: () => false,
+    acceptsLines: true,
+  },
+  html: {
+    continue: (parser, block) =>
+      parser.blank && (block.htmlBlockType === 6 || block.htmlBlockType === 7)
+        ? 'failed'
+        : 'matched',
+    finalize(_parser, block) {
+      block.content = block.content.replace(/\n$/, '');
+    },
+    canContain: () => false,
+    acceptsLines: true,
+  },
+  paragraph: {
+    continue: parser => (parser.blank ? 'failed' : 'matched'),
+    finalize(parser, block) {
+      if (parser.consumeDefinitions(block)) block.unlink();
+    },
+    canContain: () => false,
+    acceptsLines: true,
+  },
+  table: {
+    continue: parser => (parser.blank ? 'failed' : 'matched'),
+    finalize: noop,
+    canContain: () => false,
+    acceptsLines: true,
+  },
+};
+
+type BlockStart = (parser: BlockParser, container: ParseNode) => StartResult;
+
+// Splits a table row on unescaped pipes, dropping the outer pipes
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlign(cell: string): Align {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+// Moves past the spaces after a list or definition marker and returns the
+// content padding (marker width plus spaces)
+function consumeMarkerPadding(
+  parser: BlockParser,
+  markerLength: number
+): number {
+  parser.advanceNextNonspace();
+  parser.advanceOffset(markerLength, true);
+  const spacesStartColumn = parser.column;
+  const spacesStartOffset = parser.offset;
+  do {
+    parser.advanceOffset(1, true);
+  } while (
+    parser.column - spacesStartColumn < 5 &&
+    isSpaceOrTab(parser.currentLine[parser.offset])
+  );
+  const blankItem = parser.offset >= parser.currentLine.length;
+  const spacesAfterMarker = parser.column - spacesStartColumn;
+  if (spacesAfterMarker >= 5 || spacesAfterMarker < 1 || blankItem) {
+    // Content starts one space after the marker; extra spaces are content
+    parser.column = spacesStartColumn;
+    parser.offset = spacesStartOffset;
+    if (isSpaceOrTab(parser.currentLine[parser.offset])) {
+      parser.advanceOffset(1, true);
+    }
+    return markerLength + 1;
+  }
+  return markerLength + spacesAfterMarker;
+}
+
+function parseListMarker(
+  parser: BlockParser,
+  container: ParseNode
+): ListData | null {
+  if (parser.indent >= CODE_INDENT) return null;
+  const rest = parser.currentLine.slice(parser.nextNonspace);
+  const data: ListData = {
+    type: 'bullet',
+    bulletChar: null,
+    start: null,
+    delimiter: null,
+    markerOffset: parser.indent,
+    padding: 0,
+  };
+  let match = rest.match(reBulletListMarker);
+  if (match) {
+    data.bulletChar = match[0];
+  } else {
+    match = rest.match(reOrderedListMarker);
+    // Only lists starting at 1 may interrupt a paragraph
+    if (!match || (container.kind === 'paragraph' && match[1] !== '1')) {
+      return null;
+    }
+    data.type = 'ordered';
+    data.start = parseInt(match[1], 10);
+    data.delimiter = match[2];
+  }
+  const markerLength = match[0].length;
+  const next = parser.currentLine[parser.nextNonspace + markerLength];
+  if (next !== undefined && !isSpaceOrTab(next)) return null;
+  // An empty item can't interrupt a paragraph
+  if (
+    container.kind === 'paragraph' &&
+    isBlank(parser.currentLine.slice(parser.nextNonspace + markerLength))
+  ) {
+    return null;
+  }
+  data.padding = consumeMarkerPadding(parser, markerLength);
+  return data;
+}
+
+function listsMatch(list: ListData, item: ListData): boolean {
+  return (
+    list.type === item.type &&
+    list.delimiter === item.delimiter &&
+    list.bulletChar === item.bulletChar
+  );
+}
+
+const BLOCK_STARTS: BlockStart[] = [
+  // Block quote
+  parser => {
+    if (parser.indented || parser.peekNextNonspace() !== '>') {
+      return 'none';
+    }
+    parser.advanceNextNonspace();
+    parser.advanceOffset(1, false);
+    if (isSpaceOrTab(parser.currentLine[parser.offset])) {
+      parser.advanceOffset(1, true);
+    }
+    parser.closeUnmatchedBlocks();
+    parser.addChild('blockquote');
+    return 'container';
+  },
+
+  // ATX heading
+  parser => {
+    if (parser.indented) return 'none';
+    const match = parser.currentLine
+      .slice(parser.nextNonspace)
+      .match(reATXHeadingMarker);
+    if (!match) return 'none';
+    parser.advanceNextNonspace();
+    parser.advanceOffset(match[0].length, false);
+    parser.closeUnmatchedBlocks();
+    const heading = parser.addChild('heading');
+    heading.level = match[0].trim().length;
+    // Drop the optional closing sequence of #s
+    heading.content = parser.currentLine
+      .slice(parser.offset)
+      .replace(/^[ \t]*#+[ \t]*$/, '')
+      .replace(/[ \t]+#+[ \t]*$/, '');
+    parser.advanceOffset(parser.currentLine.length - parser.offset, false);
+    return 'leaf';
+  },
+
+  // Fenced code block
+  parser => {
+    if (parser.indented) return 'none';
+    const rest = parser.currentLine.slice(parser.nextNonspace);
+    const match = rest.match(reCodeFence);
+    const fixed = match ? null : FIXED_FENCES.find(f => f.open.test(rest));
+    if (!match && !fixed) return 'none';
+    parser.closeUnmatchedBlocks();
+    const code = parser.addChild('code');
+    code.fence = {
+      char: match ? match[0][0] : '',
+      length: match ? match[0].length : 0,
+      offset: parser.indent,
+      closing: fixed?.closing ?? null,
+    };
+    if (fixed) code.info = fixed.info;
+    parser.advanceNextNonspace();
+    parser.advanceOffset(match ? match[0].length : rest.length, false);
+    return 'leaf';
+  },
+
+  // HTML block
+  (parser, container) => {
+    if (parser.indented || parser.peekNextNonspace() !== '<') {
+      return 'none';
+    }
+    const rest = parser.currentLine.slice(parser.nextNonspace);
+    for (let blockType = 1; blockType <= 7; blockType++) {
+      // Type 7 (any other tag) can't interrupt a paragraph
+      if (
+        reHtmlBlockOpen[blockType].test(rest) &&
+        (blockType < 7 ||
+          (container.kind !== 'paragraph' &&
+            !(
+              !parser.allClosed &&
+              !parser.blank &&
+              parser.tip.kind === 'paragraph'
+            )))
+      ) {
+        parser.closeUnmatchedBlocks();
+        const html = parser.addChild('html');
+        html.htmlBlockType = blockType;
+        return 'leaf';
+      }
+    }
+    return 'none';
+  },
+
+  // Table: a paragraph line followed by a delimiter row
+  (parser, container) => {
+    if (parser.indented || container.kind !== 'paragraph') return 'none';
+    const rest = parser.currentLine.slice(parser.nextNonspace);
+    if (!rest.includes('|') || !reTableDelimiterRow.test(rest)) {
+      return 'none';
+    }
+    const align = splitTableRow(rest).map(parseAlign);
+    const lines = container.content.replace(/\n$/, '').split('\n');
+    const header = splitTableRow(lines[lines.length - 1]);
+    if (header.length !== align.length) return 'none';
+    parser.closeUnmatchedBlocks();
+    // Earlier lines of the paragraph stay a paragraph
+    parser.splitParagraph(container, lines);
+    const table = parser.addChild('table');
+    table.startLine = parser.lineNumber - 1;
+    table.align = align;
+    table.content = lines[lines.length - 1] + '\n';
+    parser.advanceOffset(parser.currentLine.length - parser.offset, false);
+    return 'leaf';
+  },
+
+  // Setext heading
+  (parser, container) => {
+    if (parser.indented || container.kind !== 'paragraph') return 'none';
+    const match = parser.currentLine
+      .slice(parser.nextNonspace)
+      .match(reSetextHeadingLine);
+    if (!match) return 'none';
+    parser.closeUnmatchedBlocks();
+    if (parser.consumeDefinitions(container)) return 'none';
+    const heading = new ParseNode('heading');
+    heading.startLine = container.startLine;
+    heading.level = match[0][0] === '=' ? 1 : 2;
+    heading.content = container.content;
+    container.insertAfter(heading);
+    container.unlink();
+    parser.tip = heading;
+    parser.advanceOffset(parser.currentLine.length - parser.offset, false);
+    return 'leaf';
+  },
+
+  // Thematic break
+  parser => {
+    if (
+      parser.indented ||
+      !reThematicBreak.test(parser.currentLine.slice(parser.nextNonspace))
+    ) {
+      return 'none';
+    }
+    parser.closeUnmatchedBlocks();
+    parser.addChild('thematicBreak');
+    parser.advanceOffset(parser.currentLine.length - parser.offset, false);
+    return 'leaf';
+  },
+
+  // Footnote definition
+  parser => {
+    if (parser.indented) return 'none';
+    const match = parser.currentLine
+      .slice(parser.nextNonspace)
+      .match(reFootnoteDefinition);
+    if (!match || isBlank(match[1])) return 'none';
+    parser.closeUnmatchedBlocks();
+    const definition = parser.addChild('footnoteDefinition');
+    definition.label = match[1];
+    parser.footnotes.add(normalizeLabel(match[1]));
+    parser.advanceNextNonspace();
+    parser.advanceOffset(match[0].length, false);
+    while (isSpaceOrTab(parser.currentLine[parser.offset])) {
+      parser.advanceOffset(1, false);
+    }
+    return 'container';
+  },
+
+  // Definition description: `: definition` after a term line
+  (parser, container) => {
+    if (
+      parser.indented ||
+      (container.kind !== 'paragraph' && container.kind !== 'definitionList') ||
+      !reDefinitionMarker.test(parser.currentLine.slice(parser.nextNonspace))
+    ) {
+      return 'none';
+    }
+    parser.closeUnmatchedBlocks();
+    if (container.kind === 'paragraph') {
+      // The last line of the paragraph is the term
+      const lines = container.content.replace(/\n$/, '').split('\n');
+      parser.splitParagraph(container, lines);
+      const list = parser.addChild('definitionList');
+      list.startLine = parser.lineNumber - 1;
+      const term = new ParseNode('definitionTerm');
+      term.startLine = term.endLine = parser.lineNumber - 1;
+      term.content = lines[lines.length - 1];
+      term.open = false;
+      list.appendChild(term);
+    }
+    const markerOffset = parser.indent;
+    const description = parser.addChild('definitionDescription');
+    description.listData = {
+      type: 'bullet',
+      bulletChar: ':',
+      start: null,
+      delimiter: null,
+      markerOffset,
+      padding: consumeMarkerPadding(parser, 1),
+    };
+    return 'container';
+  },
+
+  // List item
+  (parser, container) => {
+    if (parser.indented && container.kind !== 'list') return 'none';
+    const data = parseListMarker(parser, container);
+    if (!data) return 'none';
+    parser.closeUnmatchedBlocks();
+    if (parser.tip.kind !== 'list' || !listsMatch(parser.tip.listData!, data)) {
+      const list = parser.addChild('list');
+      list.listData = data;
+    }
+    const item = parser.addChild('item');
+    item.listData = data;
+    return 'container';
+  },
+
+  // Indented code block
+  parser => {
+    if (!parser.indented || parser.tip.kind === 'paragraph' || parser.blank) {
+      return 'none';
+    }
+    parser.advanceOffset(CODE_INDENT, true);
+    parser.closeUnmatchedBlocks();
+    parser.addChild('code');
+    return 'leaf';
+  },
+];
+
+class BlockParser {
+  doc = new ParseNode('document');
+  tip: ParseNode = this.doc;
+  oldTip: ParseNode = this.doc;
+  lastMatchedContainer: ParseNode = this.doc;
+  currentLine = '';
+  lineNumber = 0;
+  offset = 0;
+  column = 0;
+  nextNonspace = 0;
+  nextNonspaceColumn = 0;
+  indent = 0;
+  indented = false;
+  blank = false;
+  partiallyConsumedTab = false;
+  allClosed = true;
+  references = new Map<string, LinkReference>();
+  abbreviations = new Map<string, string>();
+  footnotes = new Set<string>();
+  inlineParser = new InlineParser(this.references, this.footnotes);
+
+  parse(markdown: string): ParseNode {
+    const lines = markdown.split(reLineEnding);
+    // A trailing newline doesn't start another line
+    if (markdown.endsWith('\n') || markdown.endsWith('\r')) lines.pop();
+    for (const line of lines) this.incorporateLine(line);
+    while (this.tip !== this.doc) this.finalize(this.tip, lines.length);
+    this.finalize(this.doc, lines.length);
+    this.processInlines(this.doc);
+    return this.doc;
+  }
+
+  peekNextNonspace(): string | undefined {
+    return this.currentLine[this.nextNonspace];
+  }
+
+  findNextNonspace() {
+    const line = this.currentLine;
+    let i = this.offset;
+    let columns = this.column;
+    let char: string | undefined;
+    while ((char = line[i]) !== undefined) {
+      if (char === ' ') {
+        i++;
+        columns++;
+      } else if (char === '\t') {
+        i++;
+        columns += 4 - (columns % 4);
+      } else {
+        break;
+      }
+    }
+    this.blank = char === undefined;
+    this.nextNonspace = i;
+    this.nextNonspaceColumn = columns;
+    this.indent = this.nextNonspaceColumn - this.column;
+    this.indented = this.indent >= CODE_INDENT;
+  }
+
+  advanceNextNonspace() {
+    this.offset = this.nextNonspace;
+    this.column = this.nextNonspaceColumn;
+    this.partiallyConsumedTab = false;
+  }
+
+  // Advances by `count` characters, or by `count` columns when `columns` is
+  // set (a tab may then be only partially consumed)
+  advanceOffset(count: number, columns: boolean) {
+    const line = this.currentLine;
+    let char: string | undefined;
+    while (count > 0 && (char = line[this.offset]) !== undefined) {
+      if (char === '\t') {
+        const charsToTab = 4 - (this.column % 4);
+        if (columns) {
+          this.partiallyConsumedTab = charsToTab > count;
+          const charsToAdvance = charsToTab > count ? count : charsToTab;
+          this.column += charsToAdvance;
+          this.offset += this.partiallyConsumedTab ? 0 : 1;
+          count -= charsToAdvance;
+        } else {
+          this.partiallyConsumedTab = false;
+          this.column += charsToTab;
+          this.offset += 1;
+          count -= 1;
+        }
+      } else {
+        this.partiallyConsumedTab = false;
+        this.offset += 1;
+        this.column += 1;
+        count -= 1;
+      }
+    }
+  }
+
+  addLine() {
+    if (this.partiallyConsumedTab) {
+      // Replace the rest of a partially consumed tab with spaces
+      this.offset += 1;
+      this.tip.content += ' '.repeat(4 - (this.column % 4));
+    }
+    this.tip.content += this.currentLine.slice(this.offset) + '\n';
+  }
+
+  addChild(kind: NodeKind): ParseNode {
+    while (!BLOCKS[this.tip.kind].canContain(kind)) {
+      this.finalize(this.tip, this.lineNumber - 1);
+    }
+    const block = new ParseNode(kind);
+    block.startLine = this.lineNumber;
+    this.tip.appendChild(block);
+    this.tip = block;
+    return block;
+  }
+
+  closeUnmatchedBlocks() {
+    if (this.allClosed) return;
+    while (this.oldTip !== this.lastMatchedContainer) {
+      const parent = this.oldTip.parent!;
+      this.finalize(this.oldTip, this.lineNumber - 1);
+      this.oldTip = parent;
+    }
+    this.allClosed = true;
+  }
+
+  finalize(block: ParseNode, lineNumber: number) {
+    const parent = block.parent;
+    block.open = false;
+    block.endLine = lineNumber;
+    BLOCKS[block.kind].finalize(this, block);
+    this.tip = parent ?? this.doc;
+  }
+
+  // Closes a paragraph whose last line became a table header or definition
+  // term, keeping any earlier lines as a paragraph of their own
+  splitParagraph(paragraph: ParseNode, lines: string[]) {
+    const parent = paragraph.parent!;
+    if (lines.length > 1) {
+      paragraph.content = lines.slice(0, -1).join('\n') + '\n';
+      this.finalize(paragraph, this.lineNumber - 2);
+    } else {
+      paragraph.unlink();
+    }
+    this.tip = parent;
+  }
+
+  // Strips link reference and abbreviation definitions from a paragraph;
+  // returns true when nothing else is left
+  consumeDefinitions(paragraph: ParseNode): boolean {
+    let position: number;
+    while (
+      paragraph.content[0] === '[' &&
+      (position = this.inlineParser.parseReference(paragraph.content))
+    ) {
+      paragraph.content = paragraph.content.slice(position);
+    }
+    if (paragraph.content.includes('\\_[')) {
+      paragraph.content = paragraph.content
+        .split('\n')
+        .filter(line => {
+          const match = line.match(reAbbreviation);
+          if (match && !this.abbreviations.has(match[1])) {
+            this.abbreviations.set(match[1], match[2].trim());
+          }
+          return !match;
+        })
+        .join('\n');
+    }
+    return isBlank(paragraph.content);
+  }
+
+  incorporateLine(line: string) {
+    let container = this.doc;
+    this.oldTip = this.tip;
+    this.offset = 0;
+    this.column = 0;
+    this.blank = false;
+    this.partiallyConsumedTab = false;
+    this.lineNumber += 1;
+    this.currentLine = line.includes('\u0000')
+      ? line.replace(/\0/g, '�')
+      : line;
+
+    // Try to continue each open block, from the outermost inwards
+    let lastChild: ParseNode | null;
+    while ((lastChild = container.lastChild) && lastChild.open) {
+      container = lastChild;
+      this.findNextNonspace();
+      const result = BLOCKS[container.kind].continue(this, container);
+      if (result === 'consumed') return;
+      if (result === 'failed') {
+        container = container.parent!;
+        break;
+      }
+    }
+
+    this.allClosed = container === this.oldTip;
+    this.lastMatchedContainer = container;
+
+    // Unless we're inside a code or HTML block, look for new block starts
+    let matchedLeaf =
+      container.kind !== 'paragraph' &&
+      container.kind !== 'table' &&
+      BLOCKS[container.kind].acceptsLines;
+    while (!matchedLeaf) {
+      this.findNextNonspace();
+      let result: StartResult = 'none';
+      for (const start of BLOCK_STARTS) {
+        result = start(this, container);
+        if (result !== 'none') break;
+      }
+      if (result === 'none') {
+        this.advanceNextNonspace();
+        break;
+      }
+      container = this.tip;
+      if (result === 'leaf') matchedLeaf = true;
+    }
+
+    // Lazy paragraph continuation
+    if (!this.allClosed && !this.blank && this.tip.kind === 'paragraph') {
+      this.addLine();
+      return;
+    }
+
+    this.closeUnmatchedBlocks();
+    if (BLOCKS[container.kind].acceptsLines) {
+      this.addLine();
+      if (
+        container.kind === 'html' &&
+        container.htmlBlockType >= 1 &&
+        container.htmlBlockType <= 5 &&
+        reHtmlBlockClose[container.htmlBlockType].test(
+          this.currentLine.slice(this.offset)
+        )
+      ) {
+        this.finalize(container, this.lineNumber);
+      }
+    } else if (this.offset < line.length && !this.blank) {
+      this.addChild('paragraph');
+      this.advanceNextNonspace();
+      this.addLine();
+    }
+  }
+
+  processInlines(block: ParseNode) {
+    for (let child = block.firstChild; child; child = child.next) {
+      switch (child.kind) {
+        case 'paragraph':
+        case 'heading':
+        case 'definitionTerm':
+          this.inlineParser.parse(child, child.content);
+          break;
+        case 'item':
+          this.detectTask(child);
+          this.processInlines(child);
+          break;
+        case 'table':
+          this.processTable(child);
+          break;
+        default:
+          this.processInlines(child);
+      }
+    }
+  }
+
+  // `- [x] done` list items
+  detectTask(item: ParseNode) {
+    const first = item.firstChild;
+    if (first?.kind !== 'paragraph') return;
+    const match = first.content.match(reTaskListMarker);
+    if (!match) return;
+    item.checked = match[1] !== ' ';
+    first.content = first.content.slice(match[0].length);
+  }
+
+  processTable(table: ParseNode) {
+    const lines = table.content.split('\n').filter(line => line !== '');
+    for (const line of lines) {
+      const row = new ParseNode('tableRow');
+      const cells = splitTableRow(line);
+      for (let i = 0; i < table.align.length; i++) {
+        const cell = new ParseNode('tableCell');
+        // Missing cells are empty, extra cells are ignored
+        this.inlineParser.parse(cell, cells[i] ?? '');
+        row.appendChild(cell);
+      }
+      table.appendChild(row);
+    }
+  }
+}
+
+// --- INLINE PARSING ---
+
+interface Delimiter {
+  char: string;
+  count: number;
+  originalCount: number;
+  node: ParseNode;
+  previous: Delimiter | null;
+  next: Delimiter | null;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+interface Bracket {
+  node: ParseNode;
+  previous: Bracket | null;
+  previousDelimiter: Delimiter | null;
+  index: number;
+  image: boolean;
+  active: boolean;
+  bracketAfter: boolean;
+}
+
+const reMain = /^[^\n`[\]\\!<&*_~$]+/;
+const reTicksHere = /^`+/;
+const reTicks = /`+/;
+// `$...$` can't start or end with whitespace, and the closing `$` can't be
+// followed by a digit, so prices like "$5 or $10" stay text
+const reInlineMath =
+  /^\$((?:[^\s$\\]|\\[^])(?:(?:[^$\\]|\\[^])*?(?:[^\s$\\]|\\[^]))?)\$(?!\d)/;
+const reDisplayMath = /^\$\$((?:[^$\\]|\\[^])+?)\$\$/;
+const reSpnl = /^ *(?:\n *)?/;
+const reFinalSpace = / *$/;
+const reInitialSpace = /^ */;
+const reSpaceAtEndOfLine = /^ *(?:\n|$)/;
+const reLinkLabel = /^\[(?:[^\\[\]]|\\.){0,1000}\]/s;
+// deno-lint-ignore no-control-regex
+const reLinkDestinationBraces = /^(?:<(?:[^<>\n\\\x00]|\\.)*>)/;
+const reLinkTitle = new RegExp(
+  `^(?:"(\\\\${ESCAPABLE}|\\\\[^\\\\]|[^\\\\"\\x00])*"` +
+    `|'(\\\\${ESCAPABLE}|\\\\[^\\\\]|[^\\\\'\\x00])*'` +
+    `|\\((\\\\${ESCAPABLE}|\\\\[^\\\\]|[^\\\\()\\x00])*\\))`
+);
+const reEmailAutolink =
+  /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+// deno-lint-ignore no-control-regex
+const reAutolink = /^<[A-Za-z][A-Za-z0-9.+-]{1,31}:[^<>\x00-\x20]*>/i;
+const reFootnoteReference = /^\[\^([^\]\s][^\]]*)\]/;
+
+// Openers that can't match a closer are skipped on later searches; the
+// cache is keyed by delimiter character, whether the closer can also open,
+// and its length modulo 3 (for the "multiple of 3" emphasis rule)
+function openersBottomIndex(closer: Delimiter): number {
+  switch (closer.char) {
+    case '_':
+      return (closer.canOpen ? 3 : 0) + (closer.originalCount % 3);
+    case '*':
+      return 6 + (closer.canOpen ? 3 : 0) + (closer.originalCount % 3);
+    default:
+      return 12 + closer.originalCount;
+  }
+}
+
+function charBefore(subject: string, position: number): string {
+  if (position === 0) return '\n';
+  const code = subject.charCodeAt(position - 1);
+  if (code >= 0xdc00 && code <= 0xdfff && position > 1) {
+    return subject.slice(position - 2, position);
+  }
+  return subject[position - 1];
+}
+
+class InlineParser {
+  subject = '';
+  position = 0;
+  delimiters: Delimiter | null = null;
+  brackets: Bracket | null = null;
+
+  constructor(
+    private references: Map<string, LinkReference>,
+    private footnotes: Set<string>
+  ) {}
+
+  parse(block: ParseNode, content: string) {
+    this.subject = content.trim();
+    this.position = 0;
+    this.delimiters = null;
+    this.brackets = null;
+    while (this.parseInline(block));
+    this.processEmphasis(null);
+  }
+
+  peek(): string | undefined {
+    return this.subject[this.position];
+  }
+
+  match(re: RegExp): string | null {
+    const match = re.exec(this.subject.slice(this.position));
+    if (match === null) return null;
+    this.position += match.index + match[0].length;
+    return match[0];
+  }
+
+  spnl(): true {
+    this.match(reSpnl);
+    return true;
+  }
+
+  parseInline(block: ParseNode): boolean {
+    const char = this.peek();
+    if (char === undefined) return false;
+    let handled: boolean;
+    switch (char) {
+      case '\n':
+        handled = this.parseNewline(block);
+        break;
+      case '\\':
+        handled = this.parseBackslash(block);
+        break;
+      case '`':
+        handled = this.parseBackticks(block);
+        break;
+      case '$':
+        handled = this.parseMath(block);
+        break;
+      case '*':
+      case '_':
+      case '~':
+        handled = this.handleDelimiter(char, block);
+        break;
+      case '[':
+        handled = this.parseOpenBracket(block);
+        break;
+      case '!':
+        handled = this.parseBang(block);
+        break;
+      case ']':
+        handled = this.parseCloseBracket(block);
+        break;
+      case '<':
+        handled = this.parseAutolink(block) || this.parseHtmlTag(block);
+        break;
+      case '&':
+        handled = this.parseEntity(block);
+        break;
+      default:
+        handled = this.parseString(block);
+    }
+    if (!handled) {
+      this.position += 1;
+      block.appendChild(textNode(char));
+    }
+    return true;
+  }
+
+  parseString(block: ParseNode): boolean {
+    const text = this.match(reMain);
+    if (text === null) return false;
+    block.appendChild(textNode(text));
+    return true;
+  }
+
+  parseNewline(block: ParseNode): boolean {
+    this.position += 1;
+    const last = block.lastChild;
+    if (last?.kind === 'text' && last.content.endsWith(' ')) {
+      // Two or more trailing spaces make a hard break
+      const hard = last.content.endsWith('  ');
+      last.content = last.content.replace(reFinalSpace, '');
+      block.appendChild(new ParseNode(hard ? 'linebreak' : 'softbreak'));
+    } else {
+      block.appendChild(new ParseNode('softbreak'));
+    }
+    this.match(reInitialSpace);
+    return true;
+  }
+
+  parseBackslash(block: ParseNode): boolean {
+    this.position += 1;
+    if (this.peek() === '\n') {
+      this.position += 1;
+      block.appendChild(new ParseNode('linebreak'));
+    } else if (reEscapable.test(this.subject.charAt(this.position))) {
+      block.appendChild(textNode(this.subject.charAt(this.position)));
+      this.position += 1;
+    } else {
+      block.appendChild(textNode('\\'));
+    }
+    return true;
+  }
+
+  parseBackticks(block: ParseNode): boolean {
+    const ticks = this.match(reTicksHere);
+    if (ticks === null) return false;
+    const afterOpenTicks = this.position;
+    let matched: string | null;
+    while ((matched = this.match(reTicks)) !== null) {
+      if (matched === ticks) {
+        const node = new ParseNode('inlineCode');
+        const contents = this.subject
+          .slice(afterOpenTicks, this.position - ticks.length)
+          .replace(/\n/g, ' ');
+        // One space of padding is stripped from both sides
+        node.content =
+          /[^ ]/.test(contents) &&
+          contents.startsWith(' ') &&
+          contents.endsWith(' ')
+            ? contents.slice(1, -1)
+            : contents;
+        block.appendChild(node);
+        return true;
+      }
+    }
+    // No closing run of the same length: the backticks are literal
+    this.position = afterOpenTicks;
+    block.appendChild(textNode(ticks));
+    return true;
+  }
+
+  // Math is taken literally, like code spans, so its underscores and
+  // asterisks are never emphasis
+  parseMath(block: ParseNode): boolean {
+    const rest = this.subject.slice(this.position);
+    const display = rest.match(reDisplayMath);
+    const match = display ?? rest.match(reInlineMath);
+    if (match === null) {
+      // An unmatched run of dollars is literal text
+      const dollars = rest.match(/^\$+/)![0];
+      this.position += dollars.length;
+      block.appendChild(textNode(dollars));
+      return true;
+    }
+    const node = new ParseNode('inlineMath');
+    node.content = match[1].trim();
+    node.display = display !== null;
+    block.appendChild(node);
+    this.position += match[0].length;
+    return true;
+  }
+
+  scanDelimiters(char: string) {
+    const start = this.position;
+    let count = 0;
+    while (this.peek() === char) {
+      count++;
+      this.position++;
+    }
+    const before = charBefore(this.subject, start);
+    const after =
+      this.position < this.subject.length
+        ? String.fromCodePoint(this.subject.codePointAt(this.position)!)
+        : '\n';
+    this.position = start;
+
+    const afterIsWhitespace = reUnicodeWhitespace.test(after);
+    const afterIsPunctuation = rePunctuation.test(after);
+    const beforeIsWhitespace = reUnicodeWhitespace.test(before);
+    const beforeIsPunctuation = rePunctuation.test(before);
+    const leftFlanking =
+      !afterIsWhitespace &&
+      (!afterIsPunctuation || beforeIsWhitespace || beforeIsPunctuation);
+    const rightFlanking =
+      !beforeIsWhitespace &&
+      (!beforeIsPunctuation || afterIsWhitespace || afterIsPunctuation);
+
+    if (char === '_') {
+      // Intraword underscores never emphasize (snake_case_names)
+      return {
+        count,
+        canOpen: leftFlanking && (!rightFlanking || beforeIsPunctuation),
+        canClose: rightFlanking && (!leftFlanking || afterIsPunctuation),
+      };
+    }
+    return { count, canOpen: leftFlanking, canClose: rightFlanking };
+  }
+
+  handleDelimiter(char: string, block: ParseNode): boolean {
+    const { count, canOpen, canClose } = this.scanDelimiters(char);
+    const node = textNode(
+      this.subject.slice(this.position, this.position + count)
+    );
+    this.position += count;
+    block.appendChild(node);
+    // Strikethrough uses one or two tildes; longer runs stay literal
+    if ((canOpen || canClose) && (char !== '~' || count <= 2)) {
+      this.delimiters = {
+        char,
+        count,
+        originalCount: count,
+        node,
+        previous: this.delimiters,
+        next: null,
+        canOpen,
+        canClose,
+      };
+      if (this.delimiters.previous) {
+        this.delimiters.previous.next = this.delimiters;
+      }
+    }
+    return true;
+  }
+
+  removeDelimiter(delimiter: Delimiter) {
+    if (delimiter.previous) delimiter.previous.next = delimiter.next;
+    if (delimiter.next) delimiter.next.previous = delimiter.previous;
+    else this.delimiters = delimiter.previous;
+  }
+
+  processEmphasis(stackBottom: Delimiter | null) {
+    const openersBottom: (Delimiter | null)[] = new Array(15).fill(stackBottom);
+
+    // Find the first closer above the stack bottom
+    let closer = this.delimiters;
+    while (closer !== null && closer.previous !== stackBottom) {
+      closer = closer.previous;
+    }
+
+    while (closer !== null) {
+      if (!closer.canClose) {
+        closer = closer.next;
+        continue;
+      }
+
+      // Look back for the first matching opener
+      const bottomIndex = openersBottomIndex(closer);
+      let opener = closer.previous;
+      let openerFound = false;
+      while (
+        opener !== null &&
+        opener !== stackBottom &&
+        opener !== openersBottom[bottomIndex]
+      ) {
+        const oddMatch =
+          (closer.canOpen || opener.canClose) &&
+          closer.originalCount % 3 !== 0 &&
+          (opener.originalCount + closer.originalCount) % 3 === 0;
+        if (
+          opener.char === closer.char &&
+          opener.canOpen &&
+          (closer.char === '~' ? opener.count === closer.count : !oddMatch)
+        ) {
+          openerFound = true;
+          break;
+        }
+        opener = opener.previous;
+      }
+
+      const oldCloser = closer;
+      if (openerFound && opener) {
+        const used =
+          closer.char === '~'
+            ? closer.count
+            : closer.count >= 2 && opener.count >= 2
+              ? 2
+              : 1;
+        const openerNode = opener.node;
+        const closerNode = closer.node;
+        opener.count -= used;
+        closer.count -= used;
+        openerNode.content = openerNode.content.slice(0, -used);
+        closerNode.content = closerNode.content.slice(0, -used);
+
+        const kind: NodeKind =
+          closer.char === '~' ? 'delete' : used === 1 ? 'emphasis' : 'strong';
+        const emphasis = new ParseNode(kind);
+        let node = openerNode.next;
+        while (node && node !== closerNode) {
+          const next = node.next;
+          emphasis.appendChild(node);
+          node = next;
+        }
+        openerNode.insertAfter(emphasis);
+
+        // Delimiters between opener and closer can no longer match
+        opener.next = closer;
+        closer.previous = opener;
+
+        if (opener.count === 0) {
+          openerNode.unlink();
+          this.removeDelimiter(opener);
+        }
+        if (closer.count === 0) {
+          closerNode.unlink();
+          const next = closer.next;
+          this.removeDelimiter(closer);
+          closer = next;
+        }
+      } else {
+        closer = closer.next;
+        // Later closers of this kind won't find an opener below this point
+        openersBottom[bottomIndex] = oldCloser.previous;
+        if (!oldCloser.canOpen) this.removeDelimiter(oldCloser);
+      }
+    }
+
+    while (this.delimiters !== null && this.delimiters !== stackBottom) {
+      this.removeDelimiter(this.delimiters);
+    }
+  }
+
+  addBracket(node: ParseNode, index: number, image: boolean) {
+    if (this.brackets !== null) this.brackets.bracketAfter = true;
+    this.brackets = {
+      node,
+      previous: this.brackets,
+      previousDelimiter: this.delimiters,
+      index,
+      image,
+      active: true,
+      bracketAfter: false,
+    };
+  }
+
+  removeBracket() {
+    this.brackets = this.brackets!.previous;
+  }
+
+  parseOpenBracket(block: ParseNode): boolean {
+    // Footnote references only resolve to defined footnotes
+    const footnote = this.subject
+      .slice(this.position)
+      .match(reFootnoteReference);
+    if (footnote && this.footnotes.has(normalizeLabel(footnote[1]))) {
+      const node = new ParseNode('footnoteReference');
+      node.label = footnote[1];
+      block.appendChild(node);
+      this.position += footnote[0].length;
+      return true;
+    }
+    const start = this.position;
+    this.position += 1;
+    const node = textNode('[');
+    block.appendChild(node);
+    this.addBracket(node, start, false);
+    return true;
+  }
+
+  parseBang(block: ParseNode): boolean {
+    const start = this.position;
+    this.position += 1;
+    if (this.peek() === '[') {
+      this.position += 1;
+      const node = textNode('![');
+      block.appendChild(node);
+      this.addBracket(node, start + 1, true);
+    } else {
+      block.appendChild(textNode('!'));
+    }
+    return true;
+  }
+
+  parseCloseBracket(block: ParseNode): boolean {
+    this.position += 1;
+    const start = this.position;
+    const opener = this.brackets;
+    if (opener === null) {
+      block.appendChild(textNode(']'));
+      return true;
+    }
+    if (!opener.active) {
+      block.appendChild(textNode(']'));
+      this.removeBracket();
+      return true;
+    }
+
+    let url: string | null = null;
+    let title: string | null = null;
+    let matched = false;
+
+    // Inline link: [text](url "title")
+    if (this.peek() === '(') {
+      this.position++;
+      if (
+        this.spnl() &&
+        (url = this.parseLinkDestination()) !== null &&
+        this.spnl() &&
+        // The title must be separated from the destination by whitespace
+        ((/[ \t\n]/.test(this.subject.charAt(this.position - 1)) &&
+          (title = this.parseLinkTitle())) ||
+          true) &&
+        this.spnl() &&
+        this.peek() === ')'
+      ) {
+        this.position += 1;
+        matched = true;
+      } else {
+        this.position = start;
+      }
+    }
+
+    // Reference link: [text][label], [label][] or [label]
+    if (!matched) {
+      const beforeLabel = this.position;
+      const length = this.parseLinkLabel();
+      let label: string | null = null;
+      if (length > 2) {
+        label = this.subject.slice(beforeLabel, beforeLabel + length);
+      } else if (!opener.bracketAfter) {
+        label = this.subject.slice(opener.index, start);
+      }
+      if (length === 0) this.position = start;
+      if (label) {
+        const reference = this.references.get(
+          normalizeLabel(label.slice(1, -1))
+        );
+        if (reference) {
+          url = reference.url;
+          title = reference.title;
+          matched = true;
+        }
+      }
+    }
+
+    if (!matched) {
+      this.removeBracket();
+      this.position = start;
+      block.appendChild(textNode(']'));
+      return true;
+    }
+
+    const node = new ParseNode(opener.image ? 'image' : 'link');
+    node.url = url!;
+    node.title = title || null;
+    let child = opener.node.next;
+    while (child) {
+      const next = child.next;
+      node.appendChild(child);
+      child = next;
+    }
+    block.appendChild(node);
+    this.processEmphasis(opener.previousDelimiter);
+    this.removeBracket();
+    opener.node.unlink();
+
+    // Links can't contain other links
+    if (!opener.image) {
+      for (let bracket = this.brackets; bracket; bracket = bracket.previous) {
+        if (!bracket.image) bracket.active = false;
+      }
+    }
+    return true;
+  }
+
+  parseLinkDestination(): string | null {
+    const braced = this.match(reLinkDestinationBraces);
+    if (braced !== null) {
+      return normalizeUrl(unescapeString(braced.slice(1, -1)));
+    }
+    if (this.peek() === '<') return null;
+    const start = this.position;
+    let openParens = 0;
+    let char: string | undefined;
+    while ((char = this.peek()) !== undefined) {
+      if (
+        char === '\\' &&
+        reEscapable.test(this.subject.charAt(this.position + 1))
+      ) {
+        this.position += 2;
+      } else if (char === '(') {
+        this.position += 1;
+        openParens += 1;
+      } else if (char === ')') {
+        if (openParens < 1) break;
+        this.position += 1;
+        openParens -= 1;
+      } else if (char.charCodeAt(0) <= 0x20 || char === '\x7f') {
+        break;
+      } else {
+        this.position += 1;
+      }
+    }
+    if (this.position === start && char !== ')') return null;
+    if (openParens !== 0) return null;
+    return normalizeUrl(
+      unescapeString(this.subject.slice(start, this.position))
+    );
+  }
+
+  parseLinkTitle(): string | null {
+    const title = this.match(reLinkTitle);
+    return title === null ? null : unescapeString(title.slice(1, -1));
+  }
+
+  parseLinkLabel(): number {
+    const label = this.match(reLinkLabel);
+    return label === null || label.length > 1001 ? 0 : label.length;
+  }
+
+  parseAutolink(block: ParseNode): boolean {
+    let match = this.match(reEmailAutolink);
+    if (match !== null) {
+      const address = match.slice(1, -1);
+      const node = new ParseNode('link');
+      node.url = normalizeUrl(`mailto:${address}`);
+      node.appendChild(textNode(address));
+      block.appendChild(node);
+      return true;
+    }
+    match = this.match(reAutolink);
+    if (match !== null) {
+      const url = match.slice(1, -1);
+      const node = new ParseNode('link');
+      node.url = normalizeUrl(url);
+      node.appendChild(textNode(url));
+      block.appendChild(node);
+      return true;
+    }
+    return false;
+  }
+
+  parseHtmlTag(block: ParseNode): boolean {
+    const tag = this.match(reHtmlTag);
+    if (tag === null) return false;
+    const node = new ParseNode('inlineHtml');
+    node.content = tag;
+    block.appendChild(node);
+    return true;
+  }
+
+  parseEntity(block: ParseNode): boolean {
+    const entity = this.match(reEntityHere);
+    if (entity === null) return false;
+    block.appendChild(textNode(decodeEntity(entity)));
+    return true;
+  }
+
+  // Parses a link reference definition at the start of `content`, returning
+  // the number of characters consumed (0 if there is none)
+  parseReference(content: string): number {
+    this.subject = content;
+    this.position = 0;
+
+    const labelLength = this.parseLinkLabel();
+    if (labelLength === 0) return 0;
+    const rawLabel = this.subject.slice(0, labelLength);
+    if (this.peek() !== ':') return 0;
+    this.position++;
+
+    this.spnl();
+    const url = this.parseLinkDestination();
+    if (url === null) return 0;
+
+    const beforeTitle = this.position;
+    this.spnl();
+    let title: string | null = null;
+    if (this.position !== beforeTitle) title = this.parseLinkTitle();
+    if (title === null) {
+      title = '';
+      this.position = beforeTitle;
+    }
+
+    // The definition must end the line, possibly after dropping the title
+    let atLineEnd = true;
+    if (this.match(reSpaceAtEndOfLine) === null) {
+      if (title === '') {
+        atLineEnd = false;
+      } else {
+        title = '';
+        this.position = beforeTitle;
+        atLineEnd = this.match(reSpaceAtEndOfLine) !== null;
+      }
+    }
+    if (!atLineEnd) return 0;
+
+    const label = normalizeLabel(rawLabel.slice(1, -1));
+    if (label === '') return 0;
+    if (!this.references.has(label)) {
+      this.references.set(label, { url, title: title || null });
+    }
+    return this.position;
+  }
+}
+
+// --- TREE CONVERSION ---
+
+function convertPhrasing(parent: ParseNode): PhrasingContent[] {
+  const children: PhrasingContent[] = [];
+  const pushText = (value: string) => {
+    const last = children[children.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else if (value !== '') children.push({ type: 'text', value });
+  };
+  for (let node = parent.firstChild; node; node = node.next) {
+    switch (node.kind) {
+      case 'text':
+        pushText(node.content);
+        break;
+      case 'softbreak':
+        pushText('\n');
+        break;
+      case 'linebreak':
+        children.push({ type: 'break' });
+        break;
+      case 'emphasis':
+      case 'strong':
+      case 'delete':
+        children.push({ type: node.kind, children: convertPhrasing(node) });
+        break;
+      case 'inlineCode':
+        children.push({ type: 'inlineCode', value: node.content });
+        break;
+      case 'inlineMath':
+        children.push({
+          type: 'inlineMath',
+          display: node.display,
+          value: node.content,
+        });
+        break;
+      case 'inlineHtml':
+        children.push({ type: 'html', value: node.content });
+        break;
+      case 'link':
+        children.push({
+          type: 'link',
+          url: node.url,
+          title: node.title,
+          children: convertPhrasing(node),
+        });
+        break;
+      case 'image':
+        children.push({
+          type: 'image',
+          url: node.url,
+          title: node.title,
+          alt: toPlainText({
+            type: 'paragraph',
+            children: convertPhrasing(node),
+          }),
+        });
+        break;
+      case 'footnoteReference':
+        children.push({
+          type: 'footnoteReference',
+          identifier: normalizeLabel(node.label),
+          label: node.label,
+        });
+        break;
+    }
+  }
+  return children;
+}
+
+function convertBlocks(parent: ParseNode): BlockContent[] {
+  const children: BlockContent[] = [];
+  for (let node = parent.firstChild; node; node = node.next) {
+    children.push(convertBlock(node));
+  }
+  return children;
+}
+
+function convertBlock(node: ParseNode): BlockContent {
+  switch (node.kind) {
+    case 'heading':
+      return {
+        type: 'heading',
+        depth: node.level,
+        children: convertPhrasing(node),
+      };
+    case 'thematicBreak':
+      return { type: 'thematicBreak' };
+    case 'blockquote':
+      return { type: 'blockquote', children: convertBlocks(node) };
+    case 'list': {
+      const items: ListItem[] = [];
+      for (let item = node.firstChild; item; item = item.next) {
+        items.push({
+          type: 'listItem',
+          checked: item.checked,
+          children: convertBlocks(item),
+        });
+      }
+      return {
+        type: 'list',
+        ordered: node.listData!.type === 'ordered',
+        start: node.listData!.start,
+        spread: !node.tight,
+        children: items,
+      };
+    }
+    case 'code': {
+      const info = node.info ?? '';
+      const space = info.search(/\s/);
+      const lang = (space === -1 ? info : info.slice(0, space)) || null;
+      if (node.fence && lang === 'math') {
+        return { type: 'math', value: node.content.replace(/\n$/, '') };
+      }
+      return {
+        type: 'code',
+        lang,
+        meta: space === -1 ? null : info.slice(space).trim() || null,
+        value: node.content,
+      };
+    }
+    case 'html':
+      return { type: 'html', value: node.content };
+    case 'table': {
+      const rows: TableRow[] = [];
+      for (let row = node.firstChild; row; row = row.next) {
+        const cells: TableCell[] = [];
+        for (let cell = row.firstChild; cell; cell = cell.next) {
+          cells.push({ type: 'tableCell', children: convertPhrasing(cell) });
+        }
+        rows.push({ type: 'tableRow', children: cells });
+      }
+      return { type: 'table', align: node.align, children: rows };
+    }
+    case 'definitionList': {
+      const children: (DefinitionTerm | DefinitionDescription)[] = [];
+      for (let child = node.firstChild; child; child = child.next) {
+        children.push(
+          child.kind === 'definitionTerm'
+            ? { type: 'definitionTerm', children: convertPhrasing(child) }
+            : { type: 'definitionDescription', children: convertBlocks(child) }
+        );
+      }
+      return { type: 'definitionList', spread: !node.tight, children };
+    }
+    case 'footnoteDefinition':
+      return {
+        type: 'footnoteDefinition',
+        identifier: normalizeLabel(node.label),
+        label: node.label,
+        children: convertBlocks(node),
+      };
+    default:
+      return { type: 'paragraph', children: convertPhrasing(node) };
+  }
+}
+
+// Wraps every whole-word occurrence of a defined abbreviation
+function applyAbbreviations(
+  node: MarkdownNode,
+  pattern: RegExp,
+  abbreviations: Map<string, string>
+) {
+  if (!('children' in node) || node.type === 'abbreviation') return;
+  const children: MarkdownNode[] = [];
+  for (const child of node.children as MarkdownNode[]) {
+    if (child.type !== 'text') {
+      applyAbbreviations(child, pattern, abbreviations);
+      children.push(child);
+      continue;
+    }
+    let last = 0;
+    for (const match of child.value.matchAll(pattern)) {
+      if (match.index > last) {
+        children.push({
+          type: 'text',
+          value: child.value.slice(last, match.index),
+        });
+      }
+      const key = [...abbreviations.keys()].find(
+        abbr => abbr.toLowerCase() === match[0].toLowerCase()
+      )!;
+      children.push({
+        type: 'abbreviation',
+        title: abbreviations.get(key)!,
+        children: [{ type: 'text', value: match[0] }],
+      });
+      last = match.index + match[0].length;
+    }
+    if (last === 0) children.push(child);
+    else if (last < child.value.length) {
+      children.push({ type: 'text', value: child.value.slice(last) });
+    }
+  }
+  (node as { children: MarkdownNode[] }).children = children;
+}
+
+/**
+ * Parses markdown into a document tree.
+ *
+ * Follows the CommonMark spec, plus GFM tables, task lists, strikethrough
+ * and footnotes, definition lists (`: definition` after a term line),
+ * abbreviations, math (`$...$`, `$$...$$` and `math` code fences) and
+ * `{{htmlcode}}` blocks.
+ */
+export function parseMarkdown(markdown: string): Root {
+  const parser = new BlockParser();
+  const root: Root = {
+    type: 'root',
+    children: convertBlocks(parser.parse(markdown)),
+  };
+  if (parser.abbreviations.size > 0) {
+    const words = [...parser.abbreviations.keys()].map(abbr =>
+      abbr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    );
+    const pattern = new RegExp(`\\b(?:${words.join('|')})\\b`, 'gi');
+    applyAbbreviations(root, pattern, parser.abbreviations);
+  }
+  return root;
+}
+
+/** Returns the text content of a node, without any markup. */
+export function toPlainText(node: MarkdownNode): string {
+  switch (node.type) {
+    case 'text':
+    case 'inlineCode':
+    case 'inlineMath':
+      return node.value;
+    case 'break':
+      return '\n';
+    case 'image':
+      return node.alt;
+    default:
+      return 'children' in node
+        ? (node.children as MarkdownNode[]).map(toPlainText).join('')
+        : '';
+  }
+}
+
+/**
+ * Calls `visitor` for every node of the given type below `node`, depth-first
+ * in document order. Return a node from the visitor to replace the visited
+ * node; replacements are not visited themselves.
+ *
+ * @example
+ * ```ts
+ * visit(tree, 'link', link => {
+ *   link.url = link.url.replace(/^http:/, 'https:');
+ * });
+ * ```
+ */
+export function visit<Type extends MarkdownNode['type']>(
+  node: MarkdownNode,
+  type: Type,
+  visitor: (
+    node: Extract<MarkdownNode, { type: Type }>,
+    parent: ParentNode,
+    index: number
+  ) => MarkdownNode | void
+): void {
+  if (!('children' in node)) return;
+  const children = node.children as MarkdownNode[];
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index];
+    if (child.type === type) {
+      const replacement = visitor(
+        child as Extract<MarkdownNode, { type: Type }>,
+        node,
+        index
+      );
+      if (replacement) {
+        children[index] = replacement;
+        continue;
+      }
+    }
+    visit(child, type, visitor);
+  }
+}
+
+// --- HTML RENDERING ---
+
+/** Renders nodes to HTML; passed to custom node renderers. */
+export interface HtmlRenderer {
+  /** Renders a node, using custom renderers where given */
+  render(node: MarkdownNode): string;
+  /** Renders the children of a node */
+  renderChildren(node: ParentNode): string;
+  /** Renders a node with the built-in renderer, ignoring custom renderers */
+  renderDefault(node: MarkdownNode): string;
+}
+
+/** Custom renderers by node type, e.g. `{ link: (node, r) => ... }`. */
+export type NodeRenderers = {
+  [Type in MarkdownNode['type']]?: (
+    node: Extract<MarkdownNode, { type: Type }>,
+    renderer: HtmlRenderer
+  ) => string;
+};
+
+// Nodes whose children are phrasing content
+const PHRASING_PARENTS = new Set<MarkdownNode['type']>([
+  'paragraph',
+  'heading',
+  'tableCell',
+  'definitionTerm',
+  'emphasis',
+  'strong',
+  'delete',
+  'link',
+  'abbreviation',
+]);
+
+function attribute(name: string, value: string | null): string {
+  return value ? ` ${name}="${escapeHtml(value)}"` : '';
+}
+
+// The first reference to footnote 1 is `footnote-ref-1`, later ones
+// `footnote-ref-1-2` and so on
+function footnoteRefId(number: number, occurrence: number): string {
+  return occurrence === 1
+    ? `footnote-ref-${number}`
+    : `footnote-ref-${number}-${occurrence}`;
+}
+
+function listItemOpenTag(item: ListItem): string {
+  if (item.checked === null) return '<li>';
+  const checked = item.checked ? ' checked' : '';
+  return `<li class="task-list-item"><input type="checkbox"${checked} disabled> `;
+}
+
+/**
+ * Renders a document tree to HTML.
+ *
+ * Output follows the CommonMark reference renderer; pass `renderers` to
+ * replace the markup of specific node types.
+ */
+export function renderHtml(root: Root, renderers: NodeRenderers = {}): string {
+  // Footnotes are numbered in order of their first reference
+  const footnotes = new Map<string, { number: number; references: number }>();
+
+  // Every block starts and ends on its own line; paragraphs of tight lists
+  // render without <p> tags
+  const renderBlocks = (nodes: MarkdownNode[], tight = false, prefix = '') => {
+    let html = prefix;
+    for (const node of nodes) {
+      if (tight && node.type === 'paragraph') {
+        html += renderer.renderChildren(node);
+        continue;
+      }
+      const output = renderer.render(node);
+      if (output === '') continue;
+      if (html !== '' && !html.endsWith('\n')) html += '\n';
+      html += output.endsWith('\n') ? output : `${output}\n`;
+    }
+    return html;
+  };
+
+  // Referenced footnotes in reference order, each with a back-reference to
+  // every place it is referenced from
+  const renderFootnotes = (root: Root) => {
+    const definitions = new Map<string, FootnoteDefinition>();
+    visit(root, 'footnoteDefinition', definition => {
+      if (!definitions.has(definition.identifier)) {
+        definitions.set(definition.identifier, definition);
+      }
+    });
+
+    // Definitions can reference further footnotes, which the loop picks up
+    // as they are added; back-references are only final afterwards
+    const contents = new Map<string, string>();
+    for (const identifier of footnotes.keys()) {
+      const definition = definitions.get(identifier);
+      if (definition) {
+        contents.set(identifier, renderBlocks(definition.children));
+      }
+    }
+    if (contents.size === 0) return '';
+
+    let items = '';
+    for (const [identifier, { number, references }] of footnotes) {
+      const content = contents.get(identifier);
+      if (content === undefined) continue;
+      const backrefs = Array.from({ length: references }, (_, i) => {
+        const occurrence = i === 0 ? '' : ` (${i + 1})`;
+        const label = i === 0 ? '' : `<sup>${i + 1}</sup>`;
+        return (
+          `<a href="#${footnoteRefId(number, i + 1)}" class="footnote-backref" ` +
+          `aria-label="Back to reference ${number}${occurrence}">↩${label}</a>`
+        );
+      }).join(' ');
+      const body = content.endsWith('</p>\n')
+        ? `${content.slice(0, -'</p>\n'.length)} ${backrefs}</p>\n`
+        : `${content}<p>${backrefs}</p>\n`;
+      items += `<li id="footnote-${number}">\n${body}</li>\n`;
+    }
+    return `<section class="footnotes">\n<ol>\n${items}</ol>\n</section>\n`;
+  };
+
+  const renderRow = (row: TableRow, align: Align[], tag: 'th' | 'td') =>
+    '<tr>\n' +
+    row.children
+      .map(
+        (cell, i) =>
+          `<${tag}${attribute('align', align[i])}>` +
+          `${renderer.renderChildren(cell)}</${tag}>\n`
+      )
+      .join('') +
+    '</tr>\n';
+
+  const renderDefault = (node: MarkdownNode): string => {
+    switch (node.type) {
+      case 'root':
+        return renderBlocks(node.children) + renderFootnotes(node);
+      case 'paragraph':
+        return `<p>${renderer.renderChildren(node)}</p>\n`;
+      case 'heading': {
+        const tag = `h${node.depth}`;
+        return `<${tag}>${renderer.renderChildren(node)}</${tag}>\n`;
+      }
+      case 'thematicBreak':
+        return '<hr />\n';
+      case 'blockquote':
+        return `${renderBlocks(node.children, false, '<blockquote>\n')}</blockquote>\n`;
+      case 'list': {
+        const tag = node.ordered ? 'ol' : 'ul';
+        const start =
+          node.start !== null && node.start !== 1
+            ? ` start="${node.start}"`
+            : '';
+        const items = node.children.map(
+          item =>
+            renderBlocks(item.children, !node.spread, listItemOpenTag(item)) +
+            '</li>\n'
+        );
+        return `<${tag}${start}>\n${items.join('')}</${tag}>\n`;
+      }
+      case 'listItem':
+        return `${renderBlocks(node.children, false, listItemOpenTag(node))}</li>\n`;
+      case 'code': {
+        const language = node.lang
+          ? ` class="language-${escapeHtml(node.lang)}"`
+          : '';
+        return `<pre><code${language}>${escapeHtml(node.value)}</code></pre>\n`;
+      }
+      case 'math':
+        return `<div class="math math-display">${escapeHtml(node.value)}</div>\n`;
+      case 'html':
+        return node.value;
+      case 'table': {
+        const [header, ...body] = node.children;
+        let html = `<table>\n<thead>\n${renderRow(header, node.align, 'th')}</thead>\n`;
+        if (body.length > 0) {
+          const rows = body.map(row => renderRow(row, node.align, 'td'));
+          html += `<tbody>\n${rows.join('')}</tbody>\n`;
+        }
+        return `${html}</table>\n`;
+      }
+      case 'tableRow':
+        return renderRow(node, [], 'td');
+      case 'tableCell':
+        return renderer.renderChildren(node);
+      case 'definitionList': {
+        const items = node.children.map(child =>
+          child.type === 'definitionTerm'
+            ? renderer.render(child)
+            : `${renderBlocks(child.children, !node.spread, '<dd>')}</dd>\n`
+        );
+        return `<dl>\n${items.join('')}</dl>\n`;
+      }
+      case 'definitionTerm':
+        return `<dt>${renderer.renderChildren(node)}</dt>\n`;
+      case 'definitionDescription':
+        return `${renderBlocks(node.children, false, '<dd>')}</dd>\n`;
+      case 'footnoteDefinition':
+        // Definitions are rendered in the footnotes section of the document
+        return '';
+      case 'text':
+        return escapeHtml(node.value);
+      case 'emphasis':
+        return `<em>${renderer.renderChildren(node)}</em>`;
+      case 'strong':
+        return `<strong>${renderer.renderChildren(node)}</strong>`;
+      case 'delete':
+        return `<del>${renderer.renderChildren(node)}</del>`;
+      case 'inlineCode':
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case 'inlineMath': {
+        const mode = node.display ? 'display' : 'inline';
+        return `<span class="math math-${mode}">${escapeHtml(node.value)}</span>`;
+      }
+      case 'break':
+        return '<br />\n';
+      case 'link':
+        return (
+          `<a href="${escapeHtml(node.url)}"${attribute('title', node.title)}>` +
+          `${renderer.renderChildren(node)}</a>`
+        );
+      case 'image':
+        return (
+          `<img src="${escapeHtml(node.url)}" alt="${escapeHtml(node.alt)}"` +
+          `${attribute('title', node.title)} />`
+        );
+      case 'footnoteReference': {
+        let footnote = footnotes.get(node.identifier);
+        if (!footnote) {
+          footnote = { number: footnotes.size + 1, references: 0 };
+          footnotes.set(node.identifier, footnote);
+        }
+        footnote.references++;
+        const { number, references } = footnote;
+        return (
+          `<sup class="footnote-ref"><a href="#footnote-${number}" ` +
+          `id="${footnoteRefId(number, references)}">[${number}]</a></sup>`
+        );
+      }
+      case 'abbreviation':
+        return (
+          `<abbr${attribute('title', node.title)}>` +
+          `${renderer.renderChildren(node)}</abbr>`
+        );
+    }
+  };
+
+  const renderer: HtmlRenderer = {
+    render(node) {
+      const custom = renderers[node.type] as
+        ((node: MarkdownNode, renderer: HtmlRenderer) => string) | undefined;
+      return custom ? custom(node, renderer) : renderDefault(node);
+    },
+    renderChildren(node) {
+      const children = node.children as MarkdownNode[];
+      return PHRASING_PARENTS.has(node.type)
+        ? children.map(child => renderer.render(child)).join('')
+        : renderBlocks(children);
+    },
+    renderDefault,
+  };
+
+  return renderer.render(root);
+}
@@ -1,5 +1,28 @@
 // Public API for Astrodon as a library
 
+import { build as buildSite } from './build.ts';
+import type { Meta } from './frontmatter.ts';
+import type { Root } from './markdown.ts';
+import type { OptimizationConfig } from './optimization.ts';
+
+export type { ComponentProps, ComponentRender } from './components.ts';
+export type { Meta } from './frontmatter.ts';
+export type {
+  BlockContent,
+  MarkdownNode,
+  ParentNode,
+  PhrasingContent,
+  Root,
+} from './markdown.ts';
+export { toPlainText, visit } from './markdown.ts';
+export type { OptimizationConfig } from './optimization.ts';
+export type {
+  NavItem,
+  RenderContext,
+  SiteData,
+  SitePage,
+} from './template.ts';
+
 /**
  * Options for building a static site with Astrodon.
  *
@@ -22,10 +45,273 @@ export interface BuildOptions {
   assetsDir?: string;
   /** Optional path to a TypeScript template file for custom rendering */
   template?: string;
-  /** Optional path to the components directory (HTML partials like navbar.html) */
+  /** Optional path to the components directory (`.html` or `.ts` components) */
   componentsDir?: string;
-  /** Whether to allow network access during build (for remote templates) */
+  /**
+   * Optional path to the layouts directory. Pages use the layout named in
+   * their `layout` frontmatter, the one named after their directory
+   * (`blog.html` for `blog/*.md`) or `default.html`, else the built-in one.
+   */
+  layoutsDir?: string;
+  /**
+   * Optional path to the build and server tuning file (default
+   * `./optimization.config.json`; defaults apply when it doesn't exist)
+   */
+  optimizationConfig?: string;
+  /**
+   * Whether to allow network access during build (for remote templates)
+   *
+   * @deprecated Builds run in-process and use the permissions of the calling
+   * process, so this option has no effect.
+   */
   allowNet?: boolean;
+  /** Site name, title template, logo and other site-wide settings */
+  site?: SiteConfig;
+  /** Plugins that hook into the build pipeline, run in registration order */
+  plugins?: AstrodonPlugin[];
+  /**
+   * Fail the build when frontmatter violates a directory's `_schema.json`
+   * or the template fails to load or render, instead of only reporting it
+   */
+  strict?: boolean;
+  /**
+   * Throw once the build is done when pages, assets or the server script
+   * failed (default `true`). Set to `false` (`--keep-going`) to only report
+   * the failures; watch mode always only reports them.
+   */
+  failOnError?: boolean;
+  /**
+   * Empty `outDir` before building. Refused for directories outside the
+   * project (the working directory) or holding the content, assets,
+   * components or layouts.
+   */
+  clean?: boolean;
+  /**
+   * Build pages with `draft: true` frontmatter too (`--drafts`), marked with
+   * a "Draft" banner. Drafts are left out of the site by default.
+   */
+  includeDrafts?: boolean;
+  /**
+   * Time pages are published against (default: the start of the build, and
+   * of each rebuild in watch mode).
+   * Pages whose `publishDate`, or else `date`, is later are left out until
+   * a build after it.
+   */
+  now?: Date;
+  /**
+   * Keep running after the initial build and incrementally rebuild the pages
+   * affected by changes to content, assets, components, layouts or the
+   * template
+   */
+  watch?: boolean;
+}
+
+/** Site-wide settings for page titles, branding and metadata. */
+export interface SiteConfig {
+  /** Shown in the navbar and page titles (default `Astrodon`) */
+  name?: string;
+  /** Page title, with `%s` for the page's own title (default `%s | <name>`) */
+  titleTemplate?: string;
+  /** Absolute URL the site is served from, used for canonical links */
+  baseUrl?: string;
+  /** Path of the logo shown in the navbar, e.g. `/assets/logo.png` */
+  logo?: string;
+  /** Language of the pages, for `<html lang>` (default `en`) */
+  language?: string;
+  /** Description of pages without a `description` of their own */
+  description?: string;
+  /** Author of pages without an `author` of their own */
+  author?: string;
+}
+
+/** Build configuration with defaults applied, as seen by plugins. */
+export interface BuildConfig {
+  /** Path to the directory containing markdown content files */
+  contentDir: string;
+  /** Path to the output directory where HTML files will be generated */
+  outDir: string;
+  /** Path to the assets directory */
+  assetsDir: string;
+  /** Path to the components directory */
+  componentsDir: string;
+  /** Path to the layouts directory */
+  layoutsDir: string;
+  /** Site-wide settings, with the name and language set */
+  site: SiteConfig & Required<Pick<SiteConfig, 'name' | 'language'>>;
+  /** Path or URL of the TypeScript template */
+  template: string;
+  /** Whether schema violations and template errors fail the build */
+  strict: boolean;
+  /** Whether failed pages, assets or server files make the build throw */
+  failOnError: boolean;
+  /** Whether `outDir` is emptied before building */
+  clean: boolean;
+  /** Whether pages with `draft: true` frontmatter are built */
+  includeDrafts: boolean;
+  /** Time pages are published against */
+  now: Date;
+  /** Whether the build keeps watching for changes */
+  watch: boolean;
+  /** Build and server tuning from the optimization config, with defaults */
+  optimization: OptimizationConfig;
+}
+
+/**
+ * Writes an extra file into the output directory.
+ *
+ * @param path - Path relative to `outDir`; paths outside it are rejected
+ * @param contents - Text or binary file contents
+ */
+export type EmitFile = (
+  path: string,
+  contents: string | Uint8Array
+) => Promise<void>;
+
+/** The page being built, passed to page-level plugin hooks. */
+export interface PageContext {
+  /** Path of the source markdown file */
+  sourcePath: string;
+  /** Path of the HTML file that will be written */
+  outputPath: string;
+  /** URL path of the page, e.g. `/blogs/my-post` */
+  url: string;
+  /** Frontmatter of the page (after `transformFrontmatter`) */
+  meta: Meta;
+  /** Resolved build configuration */
+  config: Readonly<BuildConfig>;
+  /** Write an extra file into the output directory */
+  emitFile: EmitFile;
+}
+
+/** A copied asset, passed to the `onAsset` plugin hook. */
+export interface AssetContext {
+  /** Path of the asset in the assets directory */
+  sourcePath: string;
+  /** Path the asset was copied to */
+  outputPath: string;
+  /** Path relative to the assets directory */
+  relativePath: string;
+  /** Resolved build configuration */
+  config: Readonly<BuildConfig>;
+  /** Write an extra file into the output directory */
+  emitFile: EmitFile;
+}
+
+/** Context passed to the `onBuildEnd` plugin hook. */
+export interface BuildEndContext {
+  /** Resolved build configuration */
+  config: Readonly<BuildConfig>;
+  /** Write an extra file into the output directory */
+  emitFile: EmitFile;
+}
+
+/**
+ * A build plugin. Every hook is optional and may be async; transform hooks
+ * receive the output of the previous plugin and return the new value.
+ *
+ * @example
+ * ```ts
+ * const readingTime: AstrodonPlugin = {
+ *   name: 'reading-time',
+ *   transformFrontmatter(meta, page) {
+ *     return { ...meta, readingTime: Math.ceil(page.sourcePath.length / 200) };
+ *   },
+ *   async onBuildEnd(result, { emitFile }) {
+ *     await emitFile('pages.json', JSON.stringify(result.pages));
+ *   },
+ * };
+ * ```
+ */
+export interface AstrodonPlugin {
+  /** Plugin name, used in error messages */
+  name: string;
+  /** Inspect the resolved configuration, optionally returning overrides */
+  onConfig?(
+    config: BuildConfig
+  ): void | Partial<BuildConfig> | Promise<void | Partial<BuildConfig>>;
+  /** Transform the parsed frontmatter of a page */
+  transformFrontmatter?(meta: Meta, page: PageContext): Meta | Promise<Meta>;
+  /** Transform the markdown body of a page before it is parsed */
+  transformMarkdown?(
+    markdown: string,
+    page: PageContext
+  ): string | Promise<string>;
+  /** Transform the parsed markdown document tree before it is rendered */
+  transformAst?(tree: Root, page: PageContext): Root | Promise<Root>;
+  /** Transform the page content after the template has rendered it */
+  transformHtml?(html: string, page: PageContext): string | Promise<string>;
+  /** Transform the complete HTML document before it is written */
+  transformPage?(html: string, page: PageContext): string | Promise<string>;
+  /** Called for every asset copied to the output directory */
+  onAsset?(asset: AssetContext): void | Promise<void>;
+  /**
+   * Called once the build has finished (in watch mode, after every rebuild
+   * with the pages that were rebuilt)
+   */
+  onBuildEnd?(
+    result: BuildResult,
+    context: BuildEndContext
+  ): void | Promise<void>;
+}
+
+/** A page generated (or reused from the build cache) by a build. */
+export interface BuildPage {
+  /** Path of the source markdown file */
+  sourcePath: string;
+  /** Path of the generated HTML file */
+  outputPath: string;
+  /** Parsed frontmatter of the page */
+  meta: Meta;
+  /** Whether the page was unchanged and reused from the build cache */
+  cached: boolean;
+}
+
+/** A file that failed to build. */
+export interface BuildFileError {
+  /**
+   * What failed: a markdown `page`, an `asset` copy or the copy of the
+   * `server` script (serve.ts) to the output directory
+   */
+  kind: 'page' | 'asset' | 'server';
+  /** Path of the source markdown file, the asset or the server script */
+  filePath: string;
+  /** Error message */
+  message: string;
+  /** The original error */
+  error: unknown;
+}
+
+/** Timing and file counts of a build. */
+export interface BuildMetrics {
+  /** Total build time in milliseconds */
+  totalTime: number;
+  /** Number of markdown files found */
+  totalFiles: number;
+  /** Number of pages reused from the build cache */
+  cachedFiles: number;
+  /** Number of pages parsed and written */
+  processedFiles: number;
+  /** Processing time in milliseconds per processed markdown file */
+  fileProcessingTimes: Record<string, number>;
+}
+
+/** Outcome of a build, returned by {@link build}. */
+export interface BuildResult {
+  /** Pages that were generated or reused from the build cache */
+  pages: BuildPage[];
+  /** Non-fatal problems such as frontmatter schema violations */
+  warnings: string[];
+  /** Pages, assets and server files that failed to build */
+  errors: BuildFileError[];
+  /** Extra files written by plugins through `emitFile` */
+  emittedFiles: string[];
+  /**
+   * When the next page with a future `publishDate` or `date` goes live, or
+   * null if none is scheduled; rebuild then to publish it
+   */
+  nextPublishDate: Date | null;
+  /** Timing and file counts */
+  metrics: BuildMetrics;
 }
 
 /**
@@ -44,6 +330,11 @@ export interface ServeOptions {
   root: string;
   /** Optional port number for the development server (default: 8000) */
   port?: number;
+  /**
+   * Optional path to the tuning file with the `server` settings (default
+   * `./optimization.config.json`)
+   */
+  optimizationConfig?: string;
 }
 
 function getScriptUrl(relativePath: string): string {
@@ -56,68 +347,49 @@ function getScriptUrl(relativePath: string): string {
  *
  * Processes all markdown files in the content directory, converts them to HTML,
  * applies templates and components, optimizes images, and outputs the final site
- * to the output directory.
+ * to the output directory. The build runs in the calling process.
+ *
+ * When `watch` is enabled the returned promise resolves after the first build
+ * and the process keeps running, only rebuilding the pages affected by each
+ * change.
  *
  * @param options - Configuration options for the build process
- * @returns A promise that resolves when the build is complete
- * @throws {Error} If the build process fails
+ * @returns A promise that resolves with the generated pages, warnings,
+ * per-file errors and build metrics
+ * @throws {Error} If pages, assets or the server script fail to build
+ * (unless `failOnError` is false), with a report of the failures, or on
+ * schema violations and template errors in strict mode
  *
  * @example
  * ```ts
  * import { build } from 'astrodon';
  *
- * await build({
+ * const result = await build({
  *   contentDir: './routes',
  *   outDir: './dist',
  *   assetsDir: './assets',
  * });
+ * console.log(`${result.pages.length} pages, ${result.errors.length} errors`);
  * ```
  */
-export async function build(options: BuildOptions): Promise<void> {
-  const buildScript = getScriptUrl('build.ts');
+export async function build(options: BuildOptions): Promise<BuildResult> {
   const pkgBase = new URL('./', import.meta.url);
-  const resolvedAssetsDir =
-    options.assetsDir ?? new URL('assets', pkgBase).pathname;
-  const resolvedTemplate =
-    options.template ?? new URL('template.ts', pkgBase).pathname;
-  const resolvedComponentsDir =
-    options.componentsDir ?? new URL('components', pkgBase).pathname;
-
-  const args: string[] = [
-    'run',
-    '--allow-read',
-    '--allow-write',
-    '--allow-run',
-  ];
-  const isRemotePkg =
-    pkgBase.protocol === 'http:' || pkgBase.protocol === 'https:';
-  if (options.allowNet || isRemotePkg) args.push('--allow-net');
-  args.push(
-    buildScript,
-    `--contentDir=${options.contentDir}`,
-    `--outDir=${options.outDir}`,
-    `--assetsDir=${resolvedAssetsDir}`,
-    `--template=${resolvedTemplate}`,
-    `--componentsDir=${resolvedComponentsDir}`
-  );
 
-  const cmd = new Deno.Command('deno', {
-    args,
-    stdout: 'inherit',
-    stderr: 'inherit',
+  return await buildSite({
+    ...options,
+    assetsDir: options.assetsDir ?? new URL('assets', pkgBase).pathname,
+    template: options.template ?? new URL('template.ts', pkgBase).href,
+    componentsDir:
+      options.componentsDir ?? new URL('components', pkgBase).pathname,
   });
-  const { code } = await cmd.output();
-  if (code !== 0) {
-    throw new Error('Astrodon build failed');
-  }
 }
 
 /**
  * Starts a development server to serve the built static site.
  *
  * Serves files from the specified root directory with automatic fallback to
- * index.html for clean URLs. Includes caching for API endpoints and proper
- * content-type headers.
+ * index.html for clean URLs. Response caching, compression and request
+ * limits come from the `server` settings of the optimization config.
  *
  * @param options - Configuration options for the server
  * @returns A promise that resolves when the server starts (runs indefinitely)
@@ -145,6 +417,9 @@ export async function serve(options: ServeOptions): Promise<void> {
     `--root=${options.root}`,
   ];
   if (options.port) args.push(`--port=${options.port}`);
+  if (options.optimizationConfig) {
+    args.push(`--config=${options.optimizationConfig}`);
+  }
 
   const cmd = new Deno.Command('deno', {
     args,
@@ -0,0 +1,203 @@
+// Build and server tuning from optimization.config.json: a typed loader that
+// validates the file and fills in defaults for everything it leaves out
+
+/** Tuning for builds and the development server. */
+export interface OptimizationConfig {
+  build: {
+    cache: {
+      /** Reuse unchanged pages from `.astrodon/cache.json` */
+      enabled: boolean;
+    };
+    parallel: {
+      /** Process pages concurrently instead of one at a time */
+      enabled: boolean;
+      /** Most pages processed at the same time */
+      maxConcurrency: number;
+    };
+    monitoring: {
+      /** Log build metrics after each build */
+      enabled: boolean;
+      /** Warn about pages slower than `slowFileThreshold` */
+      logSlowFiles: boolean;
+      /** Processing time in milliseconds above which a page is slow */
+      slowFileThreshold: number;
+    };
+  };
+  server: {
+    cache: {
+      /** Let browsers cache responses instead of always revalidating */
+      enabled: boolean;
+      /** How long browsers may cache responses, in milliseconds */
+      ttl: number;
+    };
+    compression: {
+      /** Gzip text responses for clients that accept it */
+      enabled: boolean;
+      /** Smallest response in bytes worth compressing */
+      minSize: number;
+    };
+    performance: {
+      /** Requests handled at once; more are answered with 503 */
+      maxConcurrentRequests: number;
+      /** Milliseconds before a request is answered with 504 */
+      requestTimeout: number;
+    };
+  };
+}
+
+/** Default path of the optimization config, relative to the working directory. */
+export const OPTIMIZATION_CONFIG_FILE = 'optimization.config.json';
+
+/** Settings used for everything the config file leaves out. */
+export const DEFAULT_OPTIMIZATION_CONFIG: OptimizationConfig = {
+  build: {
+    cache: { enabled: true },
+    parallel: { enabled: true, maxConcurrency: 4 },
+    monitoring: { enabled: true, logSlowFiles: true, slowFileThreshold: 1000 },
+  },
+  server: {
+    cache: { enabled: false, ttl: 300000 },
+    compression: { enabled: true, minSize: 1024 },
+    performance: { maxConcurrentRequests: 100, requestTimeout: 30000 },
+  },
+};
+
+// Settings of the shipped optimization.config.json that Astrodon doesn't
+// implement yet; reported together instead of as unknown options
+const UNSUPPORTED_OPTIONS = [
+  'build.cache.ttl',
+  'build.cache.maxSize',
+  'css',
+  'lua',
+];
+
+// Numbers where 0 is meaningful; all others must be positive
+const NON_NEGATIVE_OPTIONS = ['server.compression.minSize'];
+
+/** Result of loading the optimization config. */
+export interface LoadedOptimizationConfig {
+  config: OptimizationConfig;
+  /** Unknown or unsupported options in the file, which are ignored */
+  warnings: string[];
+}
+
+/**
+ * Loads and validates an optimization config file. A missing file gives the
+ * defaults; options the file leaves out keep their default.
+ *
+ * @throws {Error} If the file isn't valid JSON or an option has the wrong
+ * type
+ */
+export async function loadOptimizationConfig(
+  path: string = OPTIMIZATION_CONFIG_FILE
+): Promise<LoadedOptimizationConfig> {
+  let source: string;
+  try {
+    source = await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return {
+        config: structuredClone(DEFAULT_OPTIMIZATION_CONFIG),
+        warnings: [],
+      };
+    }
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${path}: ${message}`);
+  }
+  return parseOptimizationConfig(data, path);
+}
+
+/**
+ * Validates optimization settings, e.g. the parsed config file, against
+ * the defaults.
+ *
+ * @throws {Error} If an option has the wrong type, naming the option
+ */
+export function parseOptimizationConfig(
+  data: unknown,
+  source: string = OPTIMIZATION_CONFIG_FILE
+): LoadedOptimizationConfig {
+  const warnings: string[] = [];
+  const unsupported: string[] = [];
+  const config = merge(
+    DEFAULT_OPTIMIZATION_CONFIG,
+    data,
+    '',
+    source,
+    warnings,
+    unsupported
+  );
+  if (unsupported.length > 0) {
+    warnings.unshift(
+      `Options ${unsupported.join(', ')} in ${source} are not supported ` +
+        'yet and are ignored'
+    );
+  }
+  return { config: config as OptimizationConfig, warnings };
+}
+
+// Copies `data` over `defaults`, checking that every value has the type of
+// its default; numbers must be positive integers, or non-negative ones for
+// `NON_NEGATIVE_OPTIONS`
+function merge(
+  defaults: object,
+  data: unknown,
+  path: string,
+  source: string,
+  warnings: string[],
+  unsupported: string[]
+): object {
+  const invalid = (option: string, expected: string, value: unknown) =>
+    new Error(
+      `Invalid ${source}: ${option} must be ${expected}, ` +
+        `got ${JSON.stringify(value)}`
+    );
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw invalid(path || 'the config', 'an object', data);
+  }
+
+  const result: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(data)) {
+    const option = path ? `${path}.${key}` : key;
+    if (UNSUPPORTED_OPTIONS.includes(option)) {
+      unsupported.push(option);
+      continue;
+    }
+    if (!Object.hasOwn(defaults, key)) {
+      warnings.push(`Unknown option ${option} in ${source} is ignored`);
+      continue;
+    }
+    const fallback = (defaults as Record<string, unknown>)[key];
+    if (typeof fallback === 'object' && fallback !== null) {
+      result[key] = merge(
+        fallback,
+        value,
+        option,
+        source,
+        warnings,
+        unsupported
+      );
+      continue;
+    }
+    const minimum = NON_NEGATIVE_OPTIONS.includes(option) ? 0 : 1;
+    const valid =
+      typeof fallback === 'boolean'
+        ? typeof value === 'boolean'
+        : Number.isInteger(value) && (value as number) >= minimum;
+    if (!valid) {
+      const sign = minimum === 0 ? 'non-negative' : 'positive';
+      const expected =
+        typeof fallback === 'boolean' ? 'true or false' : `a ${sign} integer`;
+      throw invalid(option, expected, value);
+    }
+    result[key] = value;
+  }
+  return result;
+}
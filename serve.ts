@@ -2,12 +2,26 @@
 
 import { serveDir } from "@std/http/file-server";
 import { extname, join } from "@std/path";
+import { loadOptimizationConfig } from "./optimization.ts";
 
 // Get port from command line arguments or use default
 const portArg = Deno.args.find((arg) => arg.startsWith("--port="));
 const port = portArg ? parseInt(portArg.split("=")[1]) : 8000;
 const rootArg = Deno.args.find((arg) => arg.startsWith("--root="));
 const ROOT = rootArg ? rootArg.split("=")[1] : "./dist";
+const configArg = Deno.args.find((arg) => arg.startsWith("--config="));
+
+// Response caching, compression and request limits from the `server`
+// settings of optimization.config.json
+let optimization;
+try {
+  optimization = await loadOptimizationConfig(configArg?.split("=")[1]);
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  Deno.exit(1);
+}
+optimization.warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+const { cache, compression, performance: limits } = optimization.config.server;
 
 // Headers that keep the dev server from caching anything, so edits show up
 // immediately on the next request.
@@ -17,16 +31,59 @@ const NO_CACHE_HEADERS: Record<string, string> = {
   "expires": "0",
 };
 
+const CACHE_HEADERS: Record<string, string> = cache.enabled
+  ? { "cache-control": `public, max-age=${Math.floor(cache.ttl / 1000)}` }
+  : NO_CACHE_HEADERS;
+
+// Content types worth compressing; images and fonts are compressed already
+const COMPRESSIBLE_TYPES =
+  /^(text\/|application\/(json|javascript|xml)|image\/svg\+xml)/;
+
 function htmlResponse(content: string): Response {
   return new Response(new TextEncoder().encode(content), {
-    headers: { "content-type": "text/html; charset=utf-8", ...NO_CACHE_HEADERS },
+    headers: { "content-type": "text/html; charset=utf-8", ...CACHE_HEADERS },
   });
 }
 
+// Gzip text responses of at least `minSize` bytes for clients accepting it
+async function compress(req: Request, response: Response): Promise<Response> {
+  if (
+    !compression.enabled || response.status !== 200 || !response.body ||
+    response.headers.has("content-encoding") ||
+    !COMPRESSIBLE_TYPES.test(response.headers.get("content-type") ?? "") ||
+    !/\bgzip\b/.test(req.headers.get("accept-encoding") ?? "")
+  ) {
+    return response;
+  }
+
+  const body = new Uint8Array(await response.arrayBuffer());
+  const headers = new Headers(response.headers);
+  headers.append("vary", "accept-encoding");
+  if (body.byteLength < compression.minSize) {
+    return new Response(body, { status: response.status, headers });
+  }
+
+  const gzipped = await new Response(
+    new Blob([body]).stream().pipeThrough(new CompressionStream("gzip")),
+  ).arrayBuffer();
+  headers.set("content-encoding", "gzip");
+  headers.set("content-length", String(gzipped.byteLength));
+  return new Response(gzipped, { status: response.status, headers });
+}
+
 console.log(`🚀 Starting development server at http://localhost:${port}`);
 console.log(`📁 Serving files from ${ROOT}/`);
 console.log(`🔄 Auto fallback to index.html enabled`);
-console.log(`⚡ Caching disabled (dev server always serves fresh content)`);
+console.log(
+  cache.enabled
+    ? `⚡ Caching enabled (max-age ${Math.floor(cache.ttl / 1000)}s)`
+    : `⚡ Caching disabled (dev server always serves fresh content)`,
+);
+if (compression.enabled) {
+  console.log(
+    `🗜️  Gzip compression for responses of ${compression.minSize}+ bytes`,
+  );
+}
 
 // Function to generate tree view of dist directory
 async function generateTreeView(
@@ -85,7 +142,46 @@ try {
 }
 console.log(""); // Empty line for better readability
 
+let activeRequests = 0;
+
 Deno.serve({ port }, async (req: Request) => {
+  if (activeRequests >= limits.maxConcurrentRequests) {
+    return new Response("503 - Server busy", {
+      status: 503,
+      headers: {
+        "content-type": "text/plain; charset=utf-8",
+        "retry-after": "1",
+        ...NO_CACHE_HEADERS,
+      },
+    });
+  }
+
+  activeRequests++;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Response>((resolve) => {
+    timer = setTimeout(() =>
+      resolve(
+        new Response("504 - Request timed out", {
+          status: 504,
+          headers: {
+            "content-type": "text/plain; charset=utf-8",
+            ...NO_CACHE_HEADERS,
+          },
+        }),
+      ), limits.requestTimeout);
+  });
+  try {
+    return await Promise.race([
+      handle(req).then((response) => compress(req, response)),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+    activeRequests--;
+  }
+});
+
+async function handle(req: Request): Promise<Response> {
   const url = new URL(req.url);
   const path = url.pathname;
 
@@ -109,8 +205,15 @@ Deno.serve({ port }, async (req: Request) => {
     });
 
     if (response.status !== 404) {
+      // Only successful responses may be cached, browsers must not keep
+      // errors around
+      const cacheable = response.ok || response.status === 304;
       const headers = new Headers(response.headers);
-      for (const [key, value] of Object.entries(NO_CACHE_HEADERS)) {
+      for (
+        const [key, value] of Object.entries(
+          cacheable ? CACHE_HEADERS : NO_CACHE_HEADERS,
+        )
+      ) {
         headers.set(key, value);
       }
 
@@ -138,4 +241,4 @@ Deno.serve({ port }, async (req: Request) => {
       },
     });
   }
-});
+}
@@ -1,26 +1,112 @@
+import {
+  type Blockquote,
+  type Root,
+  escapeHtml,
+  toPlainText,
+  visit,
+} from './markdown.ts';
+
+/** An entry of the navigation: a page, or a directory with its pages. */
+export interface NavItem {
+  title: string;
+  /** URL path, e.g. `/blogs` or `/blogs/my-post` */
+  url: string;
+  /** `date` frontmatter of the page ('' if it has none) */
+  date?: string;
+  /** Pages of a directory, newest first */
+  children?: NavItem[];
+}
+
+/** A page of the site. */
+export interface SitePage {
+  /** URL path, e.g. `/blogs/my-post` (`/` for the home page) */
+  url: string;
+  /** Path of the source markdown file */
+  sourcePath: string;
+  /** Path of the HTML file written for the page */
+  outputPath: string;
+  /** Directory of the page in the content directory ('' for top level) */
+  directory: string;
+  /** Frontmatter of the page as written in its source */
+  // deno-lint-ignore no-explicit-any
+  meta: Record<string, any>;
+}
+
+/** Every page of the site, with queries for listing them. */
+export interface SiteData {
+  /** All pages, sorted by URL */
+  pages: SitePage[];
+  /** Navigation of the site, as shown in the navbar */
+  navigation: NavItem[];
+  /** Pages directly in a directory, e.g. `blogs` ('' for top level) */
+  inDirectory(directory: string): SitePage[];
+  /** Pages with the tag in their `tags` frontmatter */
+  withTag(tag: string): SitePage[];
+  /** Tags used by the pages, with their number of pages, most used first */
+  tags(): { tag: string; count: number }[];
+  /** Pages (default: all) newest first by `date`; undated pages go last */
+  sortedByDate(pages?: SitePage[]): SitePage[];
+}
+
 export interface RenderContext {
   // deno-lint-ignore no-explicit-any
   meta: Record<string, any>;
+  /** Path of the source markdown file */
   path: string;
+  /** URL path of the page, e.g. `/blogs/my-post` */
+  url: string;
+  /** Path of the HTML file written for the page */
+  outputPath: string;
+  /** Parsed markdown of the page; edit it and call renderHtml() to re-render */
+  ast: Root;
+  /** Renders a document tree with the site's markup */
+  renderHtml: (tree: Root) => string;
+  /**
+   * All pages of the site and its navigation, for latest posts, series
+   * navigation or tag clouds
+   */
+  site: SiteData;
+}
+
+// Finds the quote and author of a blockquote written as `"quote" - author`,
+// with the author either inline or on its own `- author` line (which parses
+// as a list)
+function findAttribution(
+  blockquote: Blockquote
+): { quote: string; author: string } | null {
+  const [first, second, ...rest] = blockquote.children;
+  if (first?.type !== 'paragraph' || rest.length > 0) return null;
+
+  let text = toPlainText(first);
+  if (second) {
+    if (second.type !== 'list' || second.ordered) return null;
+    if (second.children.length !== 1) return null;
+    text += ` - ${toPlainText(second.children[0])}`;
+  }
+
+  const quoteMatch = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .match(/^"([^"]+)"\s*-\s*(.+)$/);
+  if (!quoteMatch) return null;
+  const [, quote, author] = quoteMatch;
+  return { quote, author };
 }
 
 export function render(content: string, context: RenderContext): string {
   const meta = context.meta;
 
-  // Replace literal \n with actual newlines
-  content = content.replace(/\\n/g, '\n');
-
   // Create metadata component
   let metadata = '<div class="metadata">';
-  
+
   if (meta.author) {
     metadata += `<span class="author">By ${meta.author}</span>`;
   }
-  
+
   if (meta.date) {
     metadata += `<span class="date">${meta.date}</span>`;
   }
-  
+
   if (meta.tags && Array.isArray(meta.tags)) {
     metadata += '<div class="tags">';
     for (const tag of meta.tags) {
@@ -28,52 +114,27 @@ export function render(content: string, context: RenderContext): string {
     }
     metadata += '</div>';
   }
-  
+
   metadata += '</div>';
 
-  // Patch: Do not process blockquotes inside code blocks
-  const blocks: string[] = [];
-  let i = 1;
-  content = content.replace(/<div class="code-block-container".*?<\/div>/gs, (block) => {
-    blocks[i] = block;
-    const marker = `__CODE_BLOCK_${i}__`;
-    i++;
-    return marker;
+  // Render quotes with an author as a blockquote with a citation
+  let quotesChanged = false;
+  visit(context.ast, 'blockquote', (blockquote) => {
+    const attribution = findAttribution(blockquote);
+    if (!attribution) return;
+    quotesChanged = true;
+    return {
+      type: 'html',
+      value: `<blockquote>
+  "${escapeHtml(attribution.quote)}"
+  <cite>- ${escapeHtml(attribution.author)}</cite>
+</blockquote>`,
+    };
   });
 
-  // Process blockquotes to clean up formatting
-  let processedContent = content.replace(
-    /<blockquote>(.*?)<\/blockquote>/gs,
-    (_match, quoteText) => {
-      // Clean up literal \n characters and extra whitespace
-      quoteText = quoteText.replace(/\\n/g, '\n');
-      quoteText = quoteText.replace(/^\n*/g, '');  // Remove leading newlines
-      quoteText = quoteText.replace(/\n*$/g, '');  // Remove trailing newlines
-      quoteText = quoteText.replace(/\n+/g, ' ');  // Replace multiple newlines with single space
-      quoteText = quoteText.replace(/\s+/g, ' ');  // Replace multiple spaces with single space
-      quoteText = quoteText.trim();  // Trim whitespace
-      
-      // Try to extract quote and author if in format "quote" - author
-      const quoteMatch = quoteText.match(/^"([^"]+)"\s*-\s*(.+)$/);
-      if (quoteMatch) {
-        const [, quote, author] = quoteMatch;
-        return `<blockquote>
-  "${quote}"
-  <cite>- ${author}</cite>
-</blockquote>`;
-      } else {
-        // If no quote-author pattern found, just return cleaned content
-        return `<blockquote>${quoteText}</blockquote>`;
-      }
-    }
-  );
-
-  // Restore code blocks
-  processedContent = processedContent.replace(/__CODE_BLOCK_(\d+)__/g, (_match, idx) => {
-    const index = parseInt(idx, 10);
-    return blocks[index] || '';
-  });
+  if (quotesChanged) {
+    content = context.renderHtml(context.ast);
+  }
 
-  return metadata + processedContent;
+  return metadata + content;
 }
-
@@ -0,0 +1,165 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for the persistent on-disk build cache (.astrodon/<outDir>/cache.json)
+ */
+
+import { dirname, join } from '@std/path';
+import { assertEquals, assertNotEquals } from '@std/assert';
+import {
+  buildTestSite,
+  cleanupDir,
+  createTestContent,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+
+Deno.test('Build Cache - Unchanged pages are not rewritten', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-cache');
+  const outDir = join(benchmarkDir, 'dist-test-cache', 'site');
+
+  try {
+    await createTestContent(
+      testContentDir,
+      'cached.md',
+      `---
+title: Cached Page
+---
+
+# Cached
+`
+    );
+    await createTestContent(
+      testContentDir,
+      'edited.md',
+      `---
+title: Edited Page
+---
+
+# Before
+`
+    );
+
+    await cleanupDir(dirname(outDir));
+    await buildTestSite({ contentDir: testContentDir, outDir });
+
+    const cachedPath = join(outDir, 'cached.html');
+    const editedPath = join(outDir, 'edited.html');
+    const cachedBefore = (await Deno.stat(cachedPath)).mtime?.getTime();
+    const editedBefore = (await Deno.stat(editedPath)).mtime?.getTime();
+
+    // Make sure a rewrite would produce a different mtime
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await createTestContent(
+      testContentDir,
+      'edited.md',
+      `---
+title: Edited Page
+---
+
+# After
+`
+    );
+    await buildTestSite({ contentDir: testContentDir, outDir });
+
+    assertEquals(
+      (await Deno.stat(cachedPath)).mtime?.getTime(),
+      cachedBefore,
+      'Unchanged page should be skipped'
+    );
+    assertNotEquals(
+      (await Deno.stat(editedPath)).mtime?.getTime(),
+      editedBefore,
+      'Edited page should be rebuilt'
+    );
+
+    const manifest = JSON.parse(
+      await Deno.readTextFile(
+        join(dirname(outDir), '.astrodon', 'site', 'cache.json')
+      )
+    );
+    assertEquals(
+      Object.keys(manifest.entries).length,
+      2,
+      'Manifest should track both pages'
+    );
+  } finally {
+    await cleanupDir(join(benchmarkDir, 'dist-test-cache'));
+    await cleanupDir(testContentDir);
+  }
+});
+
+Deno.test('Build Cache - Template change invalidates the cache', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-cache-template');
+  const outDir = join(benchmarkDir, 'dist-test-cache-template', 'site');
+  const templatePath = join(benchmarkDir, 'dist-test-cache-template', 'tpl.ts');
+
+  try {
+    await createTestContent(
+      testContentDir,
+      'page.md',
+      `---
+title: Template Page
+---
+
+# Page
+`
+    );
+
+    await cleanupDir(dirname(outDir));
+    await createTestContent(
+      dirname(templatePath),
+      'tpl.ts',
+      `export function render(content: string) { return '<p>v1</p>' + content; }`
+    );
+    await buildTestSite({
+      contentDir: testContentDir,
+      outDir,
+      template: templatePath,
+    });
+
+    await createTestContent(
+      dirname(templatePath),
+      'tpl.ts',
+      `export function render(content: string) { return '<p>v2</p>' + content; }`
+    );
+    await buildTestSite({
+      contentDir: testContentDir,
+      outDir,
+      template: templatePath,
+    });
+
+    const html = await Deno.readTextFile(join(outDir, 'page.html'));
+    assertEquals(html.includes('<p>v2</p>'), true, 'Page should be re-rendered');
+  } finally {
+    await cleanupDir(join(benchmarkDir, 'dist-test-cache-template'));
+    await cleanupDir(testContentDir);
+  }
+});
+
+Deno.test('Build Cache - Sibling outDirs keep their own cache', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-cache-siblings');
+  const testDir = join(benchmarkDir, 'dist-test-cache-siblings');
+  const outDir = join(testDir, 'dist');
+  const previewDir = join(testDir, 'dist-preview');
+
+  try {
+    await createTestContent(testContentDir, 'page.md', '# Page\n');
+    await cleanupDir(testDir);
+
+    await buildTestSite({ contentDir: testContentDir, outDir });
+    await buildTestSite({ contentDir: testContentDir, outDir: previewDir });
+    const result = await buildTestSite({ contentDir: testContentDir, outDir });
+
+    assertEquals(
+      result.metrics.cachedFiles,
+      1,
+      'Building another outDir should not invalidate the cache'
+    );
+  } finally {
+    await cleanupDir(testDir);
+    await cleanupDir(testContentDir);
+  }
+});
@@ -0,0 +1,122 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for the in-process build API and its BuildResult
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import {
+  buildBenchmarkBlog,
+  buildTestSite,
+  cleanupDir,
+  createTestContent,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+import { EXPECTED_BENCHMARK_POSTS } from './fixtures/benchmark-data.ts';
+
+Deno.test('Build Result - Generated pages with meta', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const outDir = join(benchmarkDir, 'dist-test-result');
+
+  try {
+    await cleanupDir(outDir);
+    const result = await buildBenchmarkBlog(outDir);
+
+    // Benchmark posts plus the root and testing index pages
+    assertEquals(result.pages.length, EXPECTED_BENCHMARK_POSTS.length + 2);
+    assertEquals(result.errors, []);
+
+    for (const post of EXPECTED_BENCHMARK_POSTS) {
+      const page = result.pages.find(p => p.meta.title === post.title);
+      assertEquals(page?.outputPath, join(outDir, `${post.url}.html`));
+      assertEquals(page?.meta.author, post.author);
+    }
+
+    assertEquals(result.metrics.totalFiles, result.pages.length);
+    assertEquals(
+      result.metrics.processedFiles + result.metrics.cachedFiles,
+      result.pages.length
+    );
+  } finally {
+    await cleanupDir(outDir);
+  }
+});
+
+Deno.test('Build Result - Warnings and per-file errors', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-result');
+  const outDir = join(benchmarkDir, 'dist-test-result-errors');
+
+  try {
+    await createTestContent(
+      testContentDir,
+      '_schema.json',
+      JSON.stringify({ fields: { title: { required: true } } })
+    );
+    await createTestContent(testContentDir, 'untitled.md', '# No title');
+    await createTestContent(
+      testContentDir,
+      'broken.md',
+      '---\ntitle: [unclosed\n---\n'
+    );
+
+    await cleanupDir(outDir);
+    const result = await buildTestSite({
+      contentDir: testContentDir,
+      outDir,
+      failOnError: false,
+    });
+
+    assertEquals(result.pages.length, 1);
+    assertEquals(result.errors.length, 1);
+    assertEquals(result.errors[0].filePath, join(testContentDir, 'broken.md'));
+    assertStringIncludes(result.errors[0].message, 'Invalid YAML frontmatter');
+    assertEquals(
+      result.warnings.some(w => w.includes('untitled.md:1 title')),
+      true,
+      'Schema violation should be reported as a warning'
+    );
+  } finally {
+    await cleanupDir(outDir);
+    await cleanupDir(testContentDir);
+  }
+});
+
+Deno.test('Build Result - Failures fail the build with a report', async () => {
+  const testDir = join(Deno.cwd(), 'test-build-failures');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+  const brokenPath = join(contentDir, 'broken.md');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'fine.md'), '# Fine\n');
+    await Deno.writeTextFile(brokenPath, '---\ntitle: [unclosed\n---\n');
+
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir }),
+      Error,
+      'Astrodon build failed with 1 error(s):\n' +
+        `  Pages:\n    ${brokenPath}: Invalid YAML frontmatter`
+    );
+    assertStringIncludes(
+      await Deno.readTextFile(join(outDir, 'fine.html')),
+      'Fine',
+      'The rest of the site is still written'
+    );
+
+    const result = await buildTestSite({
+      contentDir,
+      outDir,
+      failOnError: false,
+    });
+    assertEquals(
+      result.errors.map(({ kind, filePath }) => ({ kind, filePath })),
+      [{ kind: 'page', filePath: brokenPath }]
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
@@ -0,0 +1,182 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for removing stale output files (.astrodon/<outDir name>/outputs.json)
+ * and clean builds
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertRejects } from '@std/assert';
+import type { AstrodonPlugin } from '../mod.ts';
+import {
+  buildTestSite,
+  cleanupDir,
+  exists,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+
+Deno.test('Clean - Outputs of deleted sources are removed', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-clean-stale');
+  const testDir = join(benchmarkDir, 'dist-test-clean-stale');
+  const assetsDir = join(testDir, 'assets');
+  const outDir = join(testDir, 'site');
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await Deno.mkdir(join(contentDir, 'blog'), { recursive: true });
+    await Deno.mkdir(assetsDir, { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'about.md'), '# About\n');
+    await Deno.writeTextFile(join(contentDir, 'blog', 'old.md'), '# Old\n');
+    await Deno.writeTextFile(join(assetsDir, 'old.css'), 'body {}');
+
+    await buildTestSite({ contentDir, outDir, assetsDir });
+    await Deno.writeTextFile(join(outDir, 'CNAME'), 'example.com');
+    assertEquals(await exists(join(outDir, 'blog', 'old.html')), true);
+
+    await Deno.rename(
+      join(contentDir, 'blog', 'old.md'),
+      join(contentDir, 'new.md')
+    );
+    await Deno.remove(join(assetsDir, 'old.css'));
+    await buildTestSite({ contentDir, outDir, assetsDir });
+
+    assertEquals(await exists(join(outDir, 'new.html')), true);
+    assertEquals(await exists(join(outDir, 'blog', 'old.html')), false);
+    assertEquals(await exists(join(outDir, 'blog')), false, 'Empty dirs go');
+    assertEquals(await exists(join(outDir, 'assets', 'old.css')), false);
+    assertEquals(await exists(join(outDir, 'about.html')), true);
+    assertEquals(
+      await exists(join(outDir, 'CNAME')),
+      true,
+      'Files the build never wrote are kept'
+    );
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Clean - Sibling outDirs keep their own manifest', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-clean-siblings');
+  const testDir = join(benchmarkDir, 'dist-test-clean-siblings');
+  const contentA = join(contentDir, 'a');
+  const contentB = join(contentDir, 'b');
+  const outA = join(testDir, 'dist-a');
+  const outB = join(testDir, 'dist-b');
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentA, { recursive: true });
+    await Deno.mkdir(contentB, { recursive: true });
+    await Deno.writeTextFile(join(contentA, 'a1.md'), '# A1\n');
+    await Deno.writeTextFile(join(contentA, 'a2.md'), '# A2\n');
+    await Deno.writeTextFile(join(contentB, 'b1.md'), '# B1\n');
+
+    await buildTestSite({ contentDir: contentA, outDir: outA });
+    await buildTestSite({ contentDir: contentB, outDir: outB });
+    await Deno.remove(join(contentA, 'a2.md'));
+    await buildTestSite({ contentDir: contentA, outDir: outA });
+
+    assertEquals(await exists(join(outA, 'a1.html')), true);
+    assertEquals(
+      await exists(join(outA, 'a2.html')),
+      false,
+      "Building B doesn't make A forget its outputs"
+    );
+    assertEquals(await exists(join(outB, 'b1.html')), true);
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Clean - Files emitted by cached pages are kept', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-clean-emitted');
+  const testDir = join(benchmarkDir, 'dist-test-clean-emitted');
+  const outDir = join(testDir, 'site');
+  const plugin: AstrodonPlugin = {
+    name: 'emit-json',
+    async transformPage(html, page) {
+      await page.emitFile('a.json', JSON.stringify({ url: page.url }));
+      return html;
+    },
+  };
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'page.md'), '# Page\n');
+
+    await buildTestSite({ contentDir, outDir, plugins: [plugin] });
+    assertEquals(await exists(join(outDir, 'a.json')), true);
+
+    // The page comes from the build cache, so its hooks don't run again
+    const result = await buildTestSite({
+      contentDir,
+      outDir,
+      plugins: [plugin],
+    });
+    assertEquals(result.pages[0].cached, true);
+    assertEquals(await exists(join(outDir, 'a.json')), true);
+
+    // Once the file is gone the page is rebuilt to emit it again
+    await Deno.remove(join(outDir, 'a.json'));
+    const rebuilt = await buildTestSite({
+      contentDir,
+      outDir,
+      plugins: [plugin],
+    });
+    assertEquals(rebuilt.pages[0].cached, false);
+    assertEquals(await exists(join(outDir, 'a.json')), true);
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Clean - Clean builds empty outDir safely', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-clean-outdir');
+  const testDir = join(benchmarkDir, 'dist-test-clean-outdir');
+  const outDir = join(testDir, 'site');
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await Deno.mkdir(outDir, { recursive: true });
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'page.md'), '# Page\n');
+    await Deno.writeTextFile(join(outDir, 'leftover.html'), '<p>old</p>');
+
+    await buildTestSite({ contentDir, outDir, clean: true });
+
+    assertEquals(await exists(join(outDir, 'leftover.html')), false);
+    assertEquals(await exists(join(outDir, 'page.html')), true);
+
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir: contentDir, clean: true }),
+      Error,
+      `Refusing to clean ${contentDir}: it contains ${contentDir}`
+    );
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir: benchmarkDir, clean: true }),
+      Error,
+      `Refusing to clean ${benchmarkDir}: it contains ${contentDir}`
+    );
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir: '/tmp', clean: true }),
+      Error,
+      'Refusing to clean /tmp: it is outside the project'
+    );
+    assertEquals(await exists(join(contentDir, 'page.md')), true);
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
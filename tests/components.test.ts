@@ -0,0 +1,238 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for {{component:...}} rendering in components.ts
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import {
+  type ComponentOptions,
+  insertComponents,
+  renderComponents,
+  renderMarkdownComponents,
+} from '../components.ts';
+import { parseMarkdown, renderHtml } from '../markdown.ts';
+import { buildTestSite, cleanupDir } from './utils/test-helpers.ts';
+
+async function withComponents(
+  files: Record<string, string>,
+  run: (options: ComponentOptions) => Promise<void>
+): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: 'astrodon-components-' });
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await Deno.writeTextFile(join(dir, name), content);
+    }
+    await run({
+      dir,
+      renderMarkdown: markdown => renderHtml(parseMarkdown(markdown)),
+      fallbacks: { navbar: '<nav>{{navigation}}</nav>' },
+    });
+  } finally {
+    await cleanupDir(dir);
+  }
+}
+
+async function renderMarkdown(
+  markdown: string,
+  options: ComponentOptions
+): Promise<string> {
+  const result = await renderMarkdownComponents(markdown, options);
+  return insertComponents(
+    renderHtml(parseMarkdown(result.markdown)),
+    result.components
+  );
+}
+
+Deno.test('Components - HTML components interpolate props', async () => {
+  await withComponents(
+    { 'footer.html': '<footer>{{owner}} {{year}}</footer>' },
+    async options => {
+      assertEquals(
+        await renderComponents(
+          '{{component:navbar}}\n{{component:footer owner="A & B"}}',
+          options
+        ),
+        '<nav>{{navigation}}</nav>\n<footer>A &amp; B {{year}}</footer>'
+      );
+    }
+  );
+});
+
+Deno.test('Components - Children are rendered as markdown', async () => {
+  await withComponents(
+    {
+      'callout.html': '<aside class="callout {{type}}">{{children}}</aside>',
+      'badge.html': '<span class="badge">{{children}}</span>',
+    },
+    async options => {
+      const html = await renderMarkdown(
+        `{{component:callout type="warning"}}
+Mind the **gap**.
+
+{{component:callout type=note}}Nested {{component:badge}}new{{/component}}{{/component}}
+{{/component}}`,
+        options
+      );
+
+      assertEquals(
+        html,
+        '<aside class="callout warning"><p>Mind the <strong>gap</strong>.</p>\n' +
+          '<aside class="callout note">Nested <span class="badge">new</span></aside>\n' +
+          '</aside>\n'
+      );
+    }
+  );
+});
+
+Deno.test('Components - TypeScript components and self-closing', async () => {
+  await withComponents(
+    {
+      'list.ts': `export function render(props) {
+  const items = props.items.split(',').map(item => '<li>' + item + '</li>');
+  return '<ul>' + items.join('') + props.children + '</ul>';
+}`,
+      'icon.html': '<i class="icon-{{name}}"></i>',
+    },
+    async options => {
+      assertEquals(
+        await renderComponents(
+          '{{component:list items="a,b"}}{{component:icon name=x /}}<li>c</li>{{/component}}',
+          options
+        ),
+        '<ul><li>a</li><li>b</li><i class="icon-x"></i><li>c</li></ul>'
+      );
+    }
+  );
+});
+
+Deno.test('Components - Code blocks are left alone', async () => {
+  await withComponents({}, async options => {
+    const markdown = '```markdown\n{{component:missing}}\n```';
+    assertEquals(
+      (await renderMarkdownComponents(markdown, options)).markdown,
+      markdown
+    );
+  });
+});
+
+Deno.test('Components - Code spans are left alone', async () => {
+  await withComponents(
+    { 'badge.html': '<span class="badge">{{children}}</span>' },
+    async options => {
+      const documented =
+        'Write `{{component:missing}}` or ``{{component:missing}}``.\n' +
+        'Spans may wrap: `{{component:missing\n}}`.';
+      assertEquals(
+        (await renderMarkdownComponents(documented, options)).markdown,
+        documented
+      );
+
+      // Escaped and unmatched backticks don't hide what follows
+      const { components } = await renderMarkdownComponents(
+        '\\`{{component:badge}}a{{/component}} `code` ' +
+          '{{component:badge}}b{{/component}}\n\n' +
+          'A lone ` tick {{component:badge}}c{{/component}}\n',
+        options
+      );
+      assertEquals(components, [
+        '<span class="badge">a</span>',
+        '<span class="badge">b</span>',
+        '<span class="badge">c</span>',
+      ]);
+    }
+  );
+});
+
+Deno.test('Components - Indented code is left alone', async () => {
+  await withComponents(
+    { 'badge.html': '<span class="badge">{{children}}</span>' },
+    async options => {
+      const documented =
+        'Use it like this:\n\n    {{component:missing}}\n\n' +
+        '- In a list:\n\n      {{component:missing}}\n';
+      assertEquals(
+        (await renderMarkdownComponents(documented, options)).markdown,
+        documented
+      );
+
+      // Indentation inside list items and paragraphs is not code
+      const { components } = await renderMarkdownComponents(
+        '- a\n  - b\n\n    {{component:badge}}x{{/component}}\n\n' +
+          'Text\n    {{component:badge}}y{{/component}}\n',
+        options
+      );
+      assertEquals(components, [
+        '<span class="badge">x</span>',
+        '<span class="badge">y</span>',
+      ]);
+    }
+  );
+});
+
+Deno.test('Components - Missing components and cycles fail', async () => {
+  await withComponents(
+    { 'a.html': '{{component:b}}', 'b.html': '{{component:a}}' },
+    async options => {
+      await assertRejects(
+        () => renderComponents('{{component:missing}}', options),
+        Error,
+        '{{component:missing}}: component not found'
+      );
+      await assertRejects(
+        () => renderComponents('{{component:a}}', options),
+        Error,
+        'component cycle: a → b → a'
+      );
+      await assertRejects(
+        () => renderComponents('text{{/component}}', options),
+        Error,
+        'without an opening {{component:...}}'
+      );
+    }
+  );
+});
+
+Deno.test('Components - Used in content and layout of a site', async () => {
+  const testDir = join(Deno.cwd(), 'test-components-site');
+  const contentDir = join(testDir, 'routes');
+  const componentsDir = join(testDir, 'components');
+  const outDir = join(testDir, 'dist');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.mkdir(componentsDir, { recursive: true });
+    await Deno.writeTextFile(
+      join(componentsDir, 'navbar.html'),
+      '<nav class="custom">{{component:brand}}<ul>{{navigation}}</ul></nav>'
+    );
+    await Deno.writeTextFile(
+      join(componentsDir, 'brand.html'),
+      '<a class="brand" href="/">Home</a>'
+    );
+    await Deno.writeTextFile(
+      join(componentsDir, 'callout.html'),
+      '<aside class="callout {{type}}">{{children}}</aside>'
+    );
+    await Deno.writeTextFile(
+      join(contentDir, 'page.md'),
+      '# Page\n\n{{component:callout type="tip"}}\nUse *components*.\n{{/component}}\n'
+    );
+
+    await buildTestSite({ contentDir, outDir, componentsDir });
+    const html = await Deno.readTextFile(join(outDir, 'page.html'));
+
+    assertStringIncludes(
+      html,
+      '<nav class="custom"><a class="brand" href="/">Home</a><ul>'
+    );
+    assertStringIncludes(
+      html,
+      '<aside class="callout tip"><p>Use <em>components</em>.</p>\n</aside>'
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
@@ -0,0 +1,103 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for draft pages (`draft: true` frontmatter) and draft previews
+ */
+
+import { join } from '@std/path';
+import { assert, assertEquals, assertFalse } from '@std/assert';
+import {
+  buildTestSite,
+  cleanupDir,
+  exists,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+
+async function createDraftSite(contentDir: string) {
+  await Deno.mkdir(join(contentDir, 'blogs'), { recursive: true });
+  await Deno.writeTextFile(join(contentDir, 'index.md'), '# Home\n');
+  await Deno.writeTextFile(
+    join(contentDir, 'ideas.md'),
+    '---\ndraft: true\n---\n\n# Ideas\n'
+  );
+  await Deno.writeTextFile(
+    join(contentDir, 'blogs', 'index.md'),
+    '# Blog\n\n{{routes:toc}}\n'
+  );
+  await Deno.writeTextFile(
+    join(contentDir, 'blogs', 'published.md'),
+    '---\ntitle: Published Post\ndate: 2024-01-01\n---\n\nOut already.\n'
+  );
+  await Deno.writeTextFile(
+    join(contentDir, 'blogs', 'wip.md'),
+    '---\ntitle: Work In Progress\ndate: 2024-02-01\ndraft: true\n---\n\nSoon.\n'
+  );
+}
+
+Deno.test('Drafts - Left out of the site by default', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-drafts-default');
+  const testDir = join(benchmarkDir, 'dist-test-drafts-default');
+  const outDir = join(testDir, 'site');
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await createDraftSite(contentDir);
+
+    const result = await buildTestSite({ contentDir, outDir });
+
+    assertEquals(result.errors, []);
+    assertFalse(await exists(join(outDir, 'blogs', 'wip.html')));
+    assertFalse(await exists(join(outDir, 'ideas.html')));
+    assertFalse(
+      result.pages.some(page => page.sourcePath.endsWith('wip.md')),
+      'Drafts are not built'
+    );
+
+    const blogIndex = await Deno.readTextFile(
+      join(outDir, 'blogs', 'index.html')
+    );
+    assert(blogIndex.includes('Published Post'));
+    assertFalse(blogIndex.includes('Work In Progress'), 'No TOC card');
+    assertFalse(blogIndex.includes('/blogs/wip'), 'Not in the navigation');
+    assertFalse(blogIndex.includes('href="/ideas"'), 'Not in the navigation');
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Drafts - Built with a banner when included', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-drafts-preview');
+  const testDir = join(benchmarkDir, 'dist-test-drafts-preview');
+  const outDir = join(testDir, 'site');
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await createDraftSite(contentDir);
+
+    await buildTestSite({ contentDir, outDir, includeDrafts: true });
+
+    const draft = await Deno.readTextFile(join(outDir, 'blogs', 'wip.html'));
+    assert(draft.includes('class="draft-banner"'), 'Drafts get a banner');
+    const published = await Deno.readTextFile(
+      join(outDir, 'blogs', 'published.html')
+    );
+    assertFalse(published.includes('class="draft-banner"'));
+    assert(published.includes('href="/blogs/wip"'), 'Drafts are in the nav');
+    const blogIndex = await Deno.readTextFile(
+      join(outDir, 'blogs', 'index.html')
+    );
+    assert(blogIndex.includes('Work In Progress'), 'Drafts get a TOC card');
+
+    // Drafts built for a preview are removed again by the next normal build
+    await buildTestSite({ contentDir, outDir });
+    assertFalse(await exists(join(outDir, 'blogs', 'wip.html')));
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
@@ -0,0 +1,226 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for frontmatter parsing (frontmatter.ts)
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertRejects, assertThrows } from '@std/assert';
+import {
+  type FrontmatterSchema,
+  parseFrontmatter,
+  validateFrontmatter,
+} from '../frontmatter.ts';
+import { build } from '../mod.ts';
+import {
+  cleanupDir,
+  createTestContent,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+
+const BLOG_SCHEMA: FrontmatterSchema = {
+  fields: {
+    title: { type: 'string', required: true },
+    date: { type: 'date', required: true },
+    status: { enum: ['draft', 'published'] },
+    tags: { type: 'array', items: 'string' },
+  },
+  additionalFields: false,
+};
+
+Deno.test('Frontmatter - Typed scalar values', () => {
+  const { meta } = parseFrontmatter(`---
+title: "Colons: they work"
+draft: false
+order: 3
+rating: 4.5
+date: 2024-01-15
+---
+
+Body`);
+
+  assertEquals(meta.title, 'Colons: they work');
+  assertEquals(meta.draft, false);
+  assertEquals(meta.order, 3);
+  assertEquals(meta.rating, 4.5);
+  assertEquals(meta.date, '2024-01-15', 'Dates should stay strings');
+});
+
+Deno.test('Frontmatter - Lists, nested objects and block scalars', () => {
+  const { meta } = parseFrontmatter(`---
+tags:
+  - a
+  - b
+inline: [x, y]
+series:
+  name: Deno
+  part: 2
+summary: |
+  Line one
+  Line two
+folded: >
+  Folded
+  text
+---
+`);
+
+  assertEquals(meta.tags, ['a', 'b']);
+  assertEquals(meta.inline, ['x', 'y']);
+  assertEquals(meta.series, { name: 'Deno', part: 2 });
+  assertEquals(meta.summary, 'Line one\nLine two\n');
+  assertEquals(meta.folded, 'Folded text\n');
+});
+
+Deno.test('Frontmatter - Closing delimiter must be on its own line', () => {
+  const { meta, body } = parseFrontmatter(`---
+title: A---B
+---
+# Heading
+
+---
+
+After rule`);
+
+  assertEquals(meta.title, 'A---B');
+  assertEquals(body, '# Heading\n\n---\n\nAfter rule');
+});
+
+Deno.test('Frontmatter - Files without frontmatter', () => {
+  const { meta, body, raw } = parseFrontmatter('# Just markdown');
+
+  assertEquals(meta, {});
+  assertEquals(body, '# Just markdown');
+  assertEquals(raw, null);
+});
+
+Deno.test('Frontmatter - Invalid YAML is reported', () => {
+  assertThrows(
+    () => parseFrontmatter('---\ntitle: [unclosed\n---\n'),
+    Error,
+    'Invalid YAML frontmatter'
+  );
+});
+
+Deno.test('Frontmatter - TOML blocks', () => {
+  const { meta, body, format } = parseFrontmatter(`+++
+title = "From Hugo"
+date = 2024-01-15
+draft = true
+tags = ["hugo", "toml"]
+
+[extra]
+series = "Migration"
++++
+
+# Content`);
+
+  assertEquals(format, 'toml');
+  assertEquals(meta.title, 'From Hugo');
+  assertEquals(meta.date, '2024-01-15');
+  assertEquals(meta.draft, true);
+  assertEquals(meta.tags, ['hugo', 'toml']);
+  assertEquals(meta.extra, { series: 'Migration' });
+  assertEquals(body, '# Content');
+});
+
+Deno.test('Frontmatter - JSON objects', () => {
+  const { meta, body, format } = parseFrontmatter(`{
+  "title": "Braces } in \\"strings\\"",
+  "tags": ["json"],
+  "nested": { "depth": 2 }
+}
+
+# Content`);
+
+  assertEquals(format, 'json');
+  assertEquals(meta.title, 'Braces } in "strings"');
+  assertEquals(meta.tags, ['json']);
+  assertEquals(meta.nested, { depth: 2 });
+  assertEquals(body, '# Content');
+});
+
+Deno.test('Frontmatter - Template markers are not JSON', () => {
+  const { meta, format } = parseFrontmatter('{{routes:toc}}');
+
+  assertEquals(format, null);
+  assertEquals(meta, {});
+});
+
+Deno.test('Frontmatter Schema - Reports every violation with its line', () => {
+  const frontmatter = parseFrontmatter(`---
+tittle: Typo
+date: 2024-13-45
+status: archived
+tags: [ok, 3]
+---
+`);
+
+  assertEquals(validateFrontmatter(frontmatter, BLOG_SCHEMA), [
+    { field: 'title', line: 1, message: 'required field is missing' },
+    { field: 'tittle', line: 2, message: 'unknown field' },
+    {
+      field: 'date',
+      line: 3,
+      message: '"2024-13-45" is not a valid date (YYYY-MM-DD)',
+    },
+    {
+      field: 'status',
+      line: 4,
+      message: '"archived" is not one of "draft", "published"',
+    },
+    {
+      field: 'tags',
+      line: 5,
+      message: 'expected every item to be string, got number',
+    },
+  ]);
+});
+
+Deno.test('Frontmatter Schema - Valid frontmatter passes', () => {
+  const frontmatter = parseFrontmatter(`---
+title: Fine
+date: 2024-02-29
+status: published
+---
+`);
+
+  assertEquals(validateFrontmatter(frontmatter, BLOG_SCHEMA), []);
+});
+
+Deno.test('Frontmatter Schema - Strict mode fails the build', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-schema');
+  const outDir = join(benchmarkDir, 'dist-test-schema');
+
+  try {
+    await createTestContent(
+      join(testContentDir, 'blogs'),
+      '_schema.json',
+      JSON.stringify(BLOG_SCHEMA)
+    );
+    await createTestContent(
+      join(testContentDir, 'blogs'),
+      'broken.md',
+      `---
+tittle: Typo
+date: 2024-01-01
+---
+
+# Broken
+`
+    );
+
+    await cleanupDir(outDir);
+    await assertRejects(
+      () => build({ contentDir: testContentDir, outDir, strict: true }),
+      Error,
+      'Astrodon build failed'
+    );
+
+    // Without strict mode violations are only reported
+    await build({ contentDir: testContentDir, outDir });
+  } finally {
+    await cleanupDir(outDir);
+    await cleanupDir(testContentDir);
+  }
+});
@@ -0,0 +1,116 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for build-time syntax highlighting in highlight.ts
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import {
+  highlightCode,
+  highlightCodeLines,
+  parseCodeMeta,
+} from '../highlight.ts';
+import { buildTestSite, cleanupDir } from './utils/test-helpers.ts';
+
+Deno.test('Highlight - Code is tokenized with Prism grammars', () => {
+  assertEquals(
+    highlightCode('const a = 1;', 'typescript'),
+    '<span class="token keyword">const</span> a ' +
+      '<span class="token operator">=</span> ' +
+      '<span class="token number">1</span>' +
+      '<span class="token punctuation">;</span>'
+  );
+});
+
+Deno.test('Highlight - Language aliases load their grammar', () => {
+  assertStringIncludes(
+    highlightCode('# note', 'sh'),
+    '<span class="token comment"># note</span>'
+  );
+});
+
+Deno.test('Highlight - Unknown languages are only escaped', () => {
+  assertEquals(highlightCode('a < b', 'plaintext'), 'a &lt; b');
+  assertEquals(highlightCode('a < b', 'not-a-language'), 'a &lt; b');
+});
+
+Deno.test('Highlight - Code fence meta is parsed', () => {
+  assertEquals(parseCodeMeta('title="build.ts" {3,7-9} showLineNumbers diff'), {
+    title: 'build.ts',
+    highlightLines: new Set([3, 7, 8, 9]),
+    showLineNumbers: true,
+    diff: true,
+  });
+  assertEquals(parseCodeMeta("title='diff'").diff, false);
+  assertEquals(parseCodeMeta(null).title, null);
+});
+
+Deno.test('Highlight - Lines keep tokens that span lines', () => {
+  const meta = parseCodeMeta('{2} showLineNumbers');
+
+  assertEquals(
+    highlightCodeLines('/* a\nb */\n', 'javascript', meta),
+    '<span class="code-line" data-line-number="1">' +
+      '<span class="token comment">/* a</span></span>\n' +
+      '<span class="code-line highlighted" data-line-number="2">' +
+      '<span class="token comment">b */</span></span>\n'
+  );
+});
+
+Deno.test('Highlight - Diff lines are marked', () => {
+  const html = highlightCodeLines(
+    ' a\n-b\n+c\n',
+    'plaintext',
+    parseCodeMeta('diff')
+  );
+
+  assertEquals(
+    html,
+    '<span class="code-line"><span class="diff-marker" aria-hidden="true"> </span>a</span>\n' +
+      '<span class="code-line line-removed"><span class="diff-marker" aria-hidden="true">-</span>b</span>\n' +
+      '<span class="code-line line-added"><span class="diff-marker" aria-hidden="true">+</span>c</span>\n'
+  );
+});
+
+Deno.test('Highlight - Stylesheet only on pages with code', async () => {
+  const testDir = join(Deno.cwd(), 'test-highlight-site');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(
+      join(contentDir, 'code.md'),
+      '```ts title="x.ts"\nlet x = 1;\n```'
+    );
+    await Deno.writeTextFile(join(contentDir, 'prose.md'), '# No code');
+
+    await buildTestSite({ contentDir, outDir });
+    const code = await Deno.readTextFile(join(outDir, 'code.html'));
+    const prose = await Deno.readTextFile(join(outDir, 'prose.html'));
+    const css = await Deno.readTextFile(
+      join(outDir, 'assets', 'highlight.css')
+    );
+
+    assertStringIncludes(
+      code,
+      '<code class="language-typescript"><span class="token keyword">let</span>'
+    );
+    assertStringIncludes(
+      code,
+      '<link rel="stylesheet" href="/assets/highlight.css">'
+    );
+    assertStringIncludes(code, '<span class="code-block-title">x.ts</span>');
+    assertStringIncludes(
+      code,
+      '<button class="copy-button" type="button" aria-label="Copy code">Copy</button>'
+    );
+    assertEquals(prose.includes('highlight.css'), false);
+    assertEquals(/prism/i.test(code + prose), false, 'No Prism from a CDN');
+    assertStringIncludes(css, '[data-theme="dark"] .token.keyword');
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
@@ -0,0 +1,315 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for {{include:...}} source files and {{partial:...}} markdown in
+ * include.ts
+ */
+
+import { join } from '@std/path';
+import {
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+  assertStringIncludes,
+} from '@std/assert';
+import { expandIncludes, expandPartials, findIncludes } from '../include.ts';
+import { buildTestSite, cleanupDir } from './utils/test-helpers.ts';
+
+const SERVER_SOURCE = `import { serve } from './http.ts';
+
+function main() {
+  // #region setup
+  const port = 8000;
+  // #region handler
+  const handler = () => 'ok';
+  // #endregion
+  // #endregion
+  serve(handler, { port });
+}
+`;
+
+async function withSource(
+  run: (markdownPath: string) => Promise<void>
+): Promise<void> {
+  const testDir = await Deno.makeTempDir({ prefix: 'astrodon-include-' });
+  try {
+    await Deno.mkdir(join(testDir, 'src'));
+    await Deno.mkdir(join(testDir, 'docs'));
+    await Deno.writeTextFile(join(testDir, 'src', 'server.ts'), SERVER_SOURCE);
+    await run(join(testDir, 'docs', 'page.md'));
+  } finally {
+    await cleanupDir(testDir);
+  }
+}
+
+Deno.test('Include - Whole file with language and title', async () => {
+  await withSource(async markdownPath => {
+    const markdown = await expandIncludes(
+      'Intro\n\n{{include:../src/server.ts}}\n',
+      markdownPath
+    );
+
+    assertEquals(
+      markdown,
+      'Intro\n\n```ts title="server.ts"\n' + SERVER_SOURCE.trimEnd() + '\n```\n'
+    );
+  });
+});
+
+Deno.test('Include - Line ranges and regions are dedented', async () => {
+  await withSource(async markdownPath => {
+    assertEquals(
+      await expandIncludes('{{include:../src/server.ts#L5-L5}}', markdownPath),
+      '```ts title="server.ts"\nconst port = 8000;\n```'
+    );
+    assertEquals(
+      await expandIncludes('{{include:../src/server.ts#setup}}', markdownPath),
+      '```ts title="server.ts"\n' +
+        "const port = 8000;\nconst handler = () => 'ok';\n```"
+    );
+  });
+});
+
+Deno.test('Include - Indented directives stay in list items', async () => {
+  await withSource(async markdownPath => {
+    assertEquals(
+      await expandIncludes(
+        '- Port:\n\n  {{include:../src/server.ts#L5}}',
+        markdownPath
+      ),
+      '- Port:\n\n  ```ts title="server.ts"\n' + '  const port = 8000;\n  ```'
+    );
+  });
+});
+
+Deno.test('Include - Directives in code blocks are left alone', async () => {
+  await withSource(async markdownPath => {
+    const documented =
+      'Write:\n\n```markdown\n{{include:../src/missing.ts#L1-L5}}\n```\n\n' +
+      '~~~~\n```\n{{include:../src/missing.ts}}\n~~~~\n';
+    assertEquals(await expandIncludes(documented, markdownPath), documented);
+    assertEquals(findIncludes(documented, markdownPath), []);
+
+    // Directives after a closed fence are still expanded
+    const markdown = await expandIncludes(
+      '```\n{{include:../src/missing.ts}}\n```\n{{include:../src/server.ts#L5}}',
+      markdownPath
+    );
+    assertEquals(
+      markdown,
+      '```\n{{include:../src/missing.ts}}\n```\n' +
+        '```ts title="server.ts"\nconst port = 8000;\n```'
+    );
+  });
+});
+
+Deno.test('Include - Missing files, lines and regions fail', async () => {
+  await withSource(async markdownPath => {
+    await assertRejects(
+      () => expandIncludes('{{include:../src/missing.ts}}', markdownPath),
+      Error,
+      'page.md:1 {{include:../src/missing.ts}}: file not found'
+    );
+    await assertRejects(
+      () =>
+        expandIncludes('\n{{include:../src/server.ts#L9-L99}}', markdownPath),
+      Error,
+      'page.md:2 {{include:../src/server.ts#L9-L99}}: lines 9-99 are outside'
+    );
+    await assertRejects(
+      () =>
+        expandIncludes('{{include:../src/server.ts#teardown}}', markdownPath),
+      Error,
+      'region "teardown" not found'
+    );
+  });
+});
+
+Deno.test('Include - Pages rebuild when included files change', async () => {
+  const testDir = join(Deno.cwd(), 'test-include-site');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+  const sourcePath = join(testDir, 'example.ts');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(sourcePath, 'let before = 1;\n');
+    await Deno.writeTextFile(
+      join(contentDir, 'example.md'),
+      '# Example\n\n{{include:../example.ts}}\n'
+    );
+    await Deno.writeTextFile(
+      join(contentDir, 'broken.md'),
+      '# Broken\n\n{{include:../missing.ts}}\n'
+    );
+
+    const first = await buildTestSite({
+      contentDir,
+      outDir,
+      failOnError: false,
+    });
+    const pagePath = join(outDir, 'example.html');
+    const before = await Deno.readTextFile(pagePath);
+
+    assertStringIncludes(
+      before,
+      '<span class="code-block-title">example.ts</span>'
+    );
+    assertStringIncludes(before, 'before');
+    assertEquals(first.errors.length, 1);
+    assertStringIncludes(
+      first.errors[0].message,
+      'broken.md:3 {{include:../missing.ts}}: file not found'
+    );
+
+    await Deno.writeTextFile(sourcePath, 'let after = 2;\n');
+    await buildTestSite({ contentDir, outDir, failOnError: false });
+    const after = await Deno.readTextFile(pagePath);
+
+    assertNotEquals(after, before);
+    assertStringIncludes(after, 'after');
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Partials - Parameters override frontmatter defaults', async () => {
+  const testDir = await Deno.makeTempDir({ prefix: 'astrodon-partial-' });
+  const partialsDir = join(testDir, '_partials');
+
+  try {
+    await Deno.mkdir(join(partialsDir, 'shared'), { recursive: true });
+    await Deno.writeTextFile(
+      join(partialsDir, 'shared', 'cta.md'),
+      '---\nlabel: Subscribe\n---\n\n[{{param:label}}]({{param:url}})\n'
+    );
+
+    assertEquals(
+      (
+        await expandPartials(
+          'Read more: {{partial:shared/cta.md url=/news}}',
+          join(testDir, 'page.md'),
+          partialsDir
+        )
+      ).markdown,
+      'Read more: [Subscribe](/news)'
+    );
+    assertEquals(
+      (
+        await expandPartials(
+          '{{partial:shared/cta.md label="Join us" url=/join}}',
+          join(testDir, 'page.md'),
+          partialsDir
+        )
+      ).markdown,
+      '[Join us](/join)'
+    );
+    await assertRejects(
+      () =>
+        expandPartials(
+          '{{partial:shared/cta.md}}',
+          join(testDir, 'page.md'),
+          partialsDir
+        ),
+      Error,
+      'param "url" is not set'
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Partials - Nesting, code blocks and cycles', async () => {
+  const testDir = await Deno.makeTempDir({ prefix: 'astrodon-partial-' });
+  const pagePath = join(testDir, 'page.md');
+
+  try {
+    await Deno.writeTextFile(
+      join(testDir, 'outer.md'),
+      'Outer\n\n{{partial:./inner.md}}'
+    );
+    await Deno.writeTextFile(join(testDir, 'inner.md'), 'Inner\nlines');
+    await Deno.writeTextFile(join(testDir, 'a.md'), '{{partial:./b.md}}');
+    await Deno.writeTextFile(join(testDir, 'b.md'), '{{partial:./a.md}}');
+
+    const { markdown, files } = await expandPartials(
+      '- {{partial:./outer.md}}\n\n```\n{{partial:./missing.md}}\n```',
+      pagePath,
+      testDir
+    );
+    assertEquals(
+      markdown,
+      '- Outer\n\n  Inner\n  lines\n\n```\n{{partial:./missing.md}}\n```'
+    );
+    assertEquals(files, [join(testDir, 'outer.md'), join(testDir, 'inner.md')]);
+
+    await assertRejects(
+      () => expandPartials('{{partial:./a.md}}', pagePath, testDir),
+      Error,
+      'partial cycle:'
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Partials - Code spans and indented code', async () => {
+  const testDir = await Deno.makeTempDir({ prefix: 'astrodon-partial-' });
+  const pagePath = join(testDir, 'page.md');
+
+  try {
+    await Deno.writeTextFile(join(testDir, 'cta.md'), '**Sign up**');
+
+    const documented =
+      'Write `{{partial:missing.md}}` where it goes:\n\n' +
+      '    {{partial:missing.md}}\n';
+    const { markdown, files } = await expandPartials(
+      documented + '\n`{{partial:cta.md}}` renders as {{partial:cta.md}}',
+      pagePath,
+      testDir
+    );
+    assertEquals(
+      markdown,
+      documented + '\n`{{partial:cta.md}}` renders as **Sign up**'
+    );
+    assertEquals(files, [join(testDir, 'cta.md')]);
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Partials - Not built as pages and rebuilt on change', async () => {
+  const testDir = join(Deno.cwd(), 'test-partial-site');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+  const partialPath = join(contentDir, '_partials', 'disclaimer.md');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(join(contentDir, '_partials'), { recursive: true });
+    await Deno.writeTextFile(partialPath, '*Opinions are my own.*');
+    await Deno.writeTextFile(
+      join(contentDir, 'post.md'),
+      '# Post\n\n{{partial:disclaimer.md}}\n'
+    );
+
+    const first = await buildTestSite({ contentDir, outDir });
+    const pagePath = join(outDir, 'post.html');
+    const before = await Deno.readTextFile(pagePath);
+
+    assertStringIncludes(before, '<em>Opinions are my own.</em>');
+    assertEquals(first.pages.length, 1);
+    assertEquals(before.includes('_partials'), false, 'Not in navigation');
+
+    await Deno.writeTextFile(partialPath, '*Views are my own.*');
+    await buildTestSite({ contentDir, outDir });
+
+    assertStringIncludes(
+      await Deno.readTextFile(pagePath),
+      '<em>Views are my own.</em>'
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
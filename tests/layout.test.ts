@@ -0,0 +1,151 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for page layouts in layout.ts
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import {
+  findDirectoryLayout,
+  type LayoutOptions,
+  loadLayout,
+} from '../layout.ts';
+import { buildTestSite, cleanupDir } from './utils/test-helpers.ts';
+
+const BASE = '<head>{{slot:head}}</head><main>{{slot:content}}</main>';
+
+async function withLayouts(
+  files: Record<string, string>,
+  run: (options: LayoutOptions) => Promise<void>
+): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: 'astrodon-layouts-' });
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await Deno.mkdir(join(dir, name, '..'), { recursive: true });
+      await Deno.writeTextFile(join(dir, name), content);
+    }
+    await run({ dir, fallbacks: { default: BASE } });
+  } finally {
+    await cleanupDir(dir);
+  }
+}
+
+Deno.test('Layout - Slots of base layouts are filled', async () => {
+  await withLayouts(
+    {
+      'post.html': `{{extends:default}}
+{{slot:head}}
+<link rel="stylesheet" href="/post.css">
+{{/slot}}
+{{slot:content}}<article>{{content}}{{slot:footer}}</article>{{/slot}}`,
+      'series.html':
+        '{{extends:post}}{{slot:footer}}<p>Part of a series</p>{{/slot}}',
+    },
+    async options => {
+      assertEquals(
+        await loadLayout('default', options),
+        '<head></head><main>{{content}}</main>'
+      );
+      assertEquals(
+        await loadLayout('series', options),
+        '<head><link rel="stylesheet" href="/post.css">\n</head>' +
+          '<main><article>{{content}}<p>Part of a series</p></article></main>'
+      );
+    }
+  );
+});
+
+Deno.test('Layout - Overriding layouts extend the built-in', async () => {
+  await withLayouts(
+    {
+      'default.html':
+        '{{extends:default}}{{slot:head}}<meta name="x">{{/slot}}',
+    },
+    async options => {
+      assertEquals(
+        await loadLayout('default', options),
+        '<head><meta name="x"></head><main>{{content}}</main>'
+      );
+    }
+  );
+});
+
+Deno.test('Layout - Missing layouts and cycles fail', async () => {
+  await withLayouts(
+    { 'a.html': '{{extends:b}}', 'b.html': '{{extends:a}}' },
+    async options => {
+      await assertRejects(
+        () => loadLayout('missing', options),
+        Error,
+        'Layout "missing" not found'
+      );
+      await assertRejects(
+        () => loadLayout('a', options),
+        Error,
+        'Layout cycle: a → b → a'
+      );
+    }
+  );
+});
+
+Deno.test('Layout - Directory layouts apply to subdirectories', async () => {
+  await withLayouts({ 'blog.html': BASE }, async options => {
+    assertEquals(await findDirectoryLayout('blog/2024', options), 'blog');
+    assertEquals(await findDirectoryLayout('docs', options), null);
+    assertEquals(await findDirectoryLayout('.', options), null);
+  });
+});
+
+Deno.test('Layout - Pages pick layouts in a built site', async () => {
+  const testDir = join(Deno.cwd(), 'test-layout-site');
+  const contentDir = join(testDir, 'routes');
+  const layoutsDir = join(testDir, 'layouts');
+  const outDir = join(testDir, 'dist');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(join(contentDir, 'blog'), { recursive: true });
+    await Deno.mkdir(layoutsDir, { recursive: true });
+    await Deno.writeTextFile(
+      join(layoutsDir, 'base.html'),
+      '<html><head><title>{{title}}</title>{{slot:head}}</head>' +
+        '<body>{{slot:content}}{{slot:scripts}}</body></html>'
+    );
+    await Deno.writeTextFile(
+      join(layoutsDir, 'blog.html'),
+      '{{extends:base}}{{slot:content}}<article>{{content}}</article>{{/slot}}'
+    );
+    await Deno.writeTextFile(
+      join(layoutsDir, 'bare.html'),
+      '<main data-title="{{title}}">{{content}}</main>'
+    );
+    await Deno.writeTextFile(
+      join(contentDir, 'blog', 'post.md'),
+      '---\ntitle: Post\n---\n\nHello'
+    );
+    await Deno.writeTextFile(
+      join(contentDir, 'blog', 'landing.md'),
+      '---\ntitle: Landing\nlayout: bare\n---\n\nWelcome'
+    );
+    await Deno.writeTextFile(join(contentDir, 'about.md'), '# About');
+
+    await buildTestSite({ contentDir, outDir, layoutsDir });
+    const post = await Deno.readTextFile(join(outDir, 'blog', 'post.html'));
+    const landing = await Deno.readTextFile(
+      join(outDir, 'blog', 'landing.html')
+    );
+    const about = await Deno.readTextFile(join(outDir, 'about.html'));
+
+    assertStringIncludes(post, '<title>Post | Astrodon</title>');
+    assertStringIncludes(
+      post,
+      '<body><article><div class="metadata"></div><p>Hello</p>\n</article>'
+    );
+    assertStringIncludes(landing, '<main data-title="Landing | Astrodon">');
+    assertEquals(landing.includes('<html>'), false);
+    assertStringIncludes(about, '.back-to-top {', 'Built-in layout');
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
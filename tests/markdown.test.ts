@@ -0,0 +1,231 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for the markdown parser and HTML renderer in markdown.ts
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import { parseMarkdown, renderHtml, visit } from '../markdown.ts';
+import spec from './fixtures/commonmark-spec.json' with { type: 'json' };
+import { buildTestSite, cleanupDir } from './utils/test-helpers.ts';
+
+function render(markdown: string): string {
+  return renderHtml(parseMarkdown(markdown));
+}
+
+Deno.test('Markdown - passes the CommonMark spec examples', () => {
+  const failures = spec
+    .filter(example => render(example.markdown) !== example.html)
+    .map(example => `#${example.example} (${example.section})`);
+
+  assertEquals(failures, [], 'Every spec example should render as expected');
+});
+
+Deno.test('Markdown - GitHub-flavoured tables with alignment', () => {
+  const html = render(
+    '| Name | Size |\n| :--- | ---: |\n| a \\| b | 1 |\n| c | 2 |'
+  );
+
+  assertStringIncludes(html, '<th align="left">Name</th>');
+  assertStringIncludes(html, '<th align="right">Size</th>');
+  assertStringIncludes(html, '<td align="left">a | b</td>');
+  assertStringIncludes(html, '<tbody>');
+});
+
+Deno.test('Markdown - task lists and strikethrough', () => {
+  const html = render('- [x] done\n- [ ] ~~todo~~');
+
+  assertStringIncludes(
+    html,
+    '<li class="task-list-item"><input type="checkbox" checked disabled> done'
+  );
+  assertStringIncludes(
+    html,
+    '<input type="checkbox" disabled> <del>todo</del>'
+  );
+});
+
+Deno.test('Markdown - footnote references', () => {
+  const html = render('Text[^note].\n\n[^note]: The note.');
+
+  assertStringIncludes(
+    html,
+    '<sup class="footnote-ref"><a href="#footnote-1" id="footnote-ref-1">[1]</a></sup>'
+  );
+});
+
+Deno.test('Markdown - footnotes section with back-references', () => {
+  const html = render(
+    [
+      'One[^b], two[^a] and three[^b].',
+      '',
+      '[^a]: A *short* note.',
+      '[^b]: A long note.',
+      '',
+      '    With a second paragraph.',
+      '[^unused]: Never referenced.',
+    ].join('\n')
+  );
+
+  assertStringIncludes(html, 'id="footnote-ref-1-2">[1]</a></sup>');
+  assertStringIncludes(
+    html,
+    [
+      '<section class="footnotes">',
+      '<ol>',
+      '<li id="footnote-1">',
+      '<p>A long note.</p>',
+      '<p>With a second paragraph. ' +
+        '<a href="#footnote-ref-1" class="footnote-backref" aria-label="Back to reference 1">↩</a> ' +
+        '<a href="#footnote-ref-1-2" class="footnote-backref" aria-label="Back to reference 1 (2)">↩<sup>2</sup></a></p>',
+      '</li>',
+      '<li id="footnote-2">',
+      '<p>A <em>short</em> note. ' +
+        '<a href="#footnote-ref-2" class="footnote-backref" aria-label="Back to reference 2">↩</a></p>',
+      '</li>',
+      '</ol>',
+      '</section>',
+    ].join('\n')
+  );
+  assertEquals(html.includes('Never referenced'), false);
+});
+
+Deno.test('Markdown - definition lists', () => {
+  const html = render('Term\n: First definition\n: Second definition');
+
+  assertStringIncludes(html, '<dl>');
+  assertStringIncludes(html, '<dt>Term</dt>');
+  assertStringIncludes(html, '<dd>First definition</dd>');
+  assertStringIncludes(html, '<dd>Second definition</dd>');
+});
+
+Deno.test('Markdown - abbreviations', () => {
+  const html = render(
+    'Written in HTML, not HTMLX.\n\n\\_[HTML]: HyperText Markup Language'
+  );
+
+  assertStringIncludes(
+    html,
+    '<abbr title="HyperText Markup Language">HTML</abbr>, not HTMLX.'
+  );
+  assertEquals(html.includes('\\_['), false, 'Definition should be removed');
+});
+
+Deno.test('Markdown - underscores inside words are not emphasis', () => {
+  assertEquals(
+    render('Call snake_case_name here'),
+    '<p>Call snake_case_name here</p>\n'
+  );
+});
+
+Deno.test('Markdown - {{htmlcode}} blocks become html code', () => {
+  const html = render('{{htmlcode}}\n<div class="x"></div>\n{{/htmlcode}}');
+
+  assertStringIncludes(
+    html,
+    '<code class="language-html">&lt;div class=&quot;x&quot;&gt;&lt;/div&gt;'
+  );
+});
+
+Deno.test('Markdown - math is not parsed as emphasis', () => {
+  assertEquals(
+    render('Let $a_1 * b_2$ and $$x_*$$ cost $5 or $10.'),
+    '<p>Let <span class="math math-inline">a_1 * b_2</span> and ' +
+      '<span class="math math-display">x_*</span> cost $5 or $10.</p>\n'
+  );
+  assertEquals(
+    render('$$\n\\frac{a}{b}\n$$\n\n```math\nE = mc^2\n```'),
+    '<div class="math math-display">\\frac{a}{b}</div>\n' +
+      '<div class="math math-display">E = mc^2</div>\n'
+  );
+});
+
+Deno.test('Markdown - visit() walks and replaces nodes', () => {
+  const tree = parseMarkdown('# Title\n\n- [a](http://a.dev)\n- `code`');
+  const types: string[] = [];
+
+  visit(tree, 'link', link => {
+    link.url = link.url.replace(/^http:/, 'https:');
+  });
+  visit(tree, 'inlineCode', code => ({ type: 'text', value: code.value }));
+  visit(tree, 'heading', heading => {
+    types.push(...heading.children.map(child => child.type));
+  });
+
+  assertEquals(types, ['text']);
+  assertEquals(
+    renderHtml(tree),
+    '<h1>Title</h1>\n<ul>\n<li><a href="https://a.dev">a</a></li>\n<li>code</li>\n</ul>\n'
+  );
+});
+
+Deno.test('Markdown - site markup for headings, links and tables', async () => {
+  const testDir = join(Deno.cwd(), 'test-markdown-site');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(
+      join(contentDir, 'index.md'),
+      [
+        '# Hello *World*',
+        '',
+        '[Deno](https://deno.land) and [about](/about).',
+        '',
+        '| a |',
+        '| - |',
+        '| 1 |',
+      ].join('\n')
+    );
+
+    await buildTestSite({ contentDir, outDir });
+    const html = await Deno.readTextFile(join(outDir, 'index.html'));
+
+    assertStringIncludes(
+      html,
+      '<h1 id="hello-world"><a href="#hello-world" class="header-anchor">'
+    );
+    assertStringIncludes(
+      html,
+      '<a href="https://deno.land" target="_blank" rel="noopener noreferrer">'
+    );
+    assertStringIncludes(html, '<a href="/about">about</a>');
+    assertStringIncludes(html, '<div class="table-responsive"><table>');
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Markdown - math is rendered at build time', async () => {
+  const testDir = join(Deno.cwd(), 'test-markdown-math');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(
+      join(contentDir, 'math.md'),
+      'Euler: $e^{i\\pi} + 1 = 0$\n\n```\necho $$\n```'
+    );
+    await Deno.writeTextFile(join(contentDir, 'plain.md'), '# No math');
+
+    await buildTestSite({ contentDir, outDir });
+    const math = await Deno.readTextFile(join(outDir, 'math.html'));
+    const plain = await Deno.readTextFile(join(outDir, 'plain.html'));
+
+    assertStringIncludes(math, '<span class="katex">');
+    assertStringIncludes(
+      math,
+      '<math xmlns="http://www.w3.org/1998/Math/MathML">'
+    );
+    assertStringIncludes(math, 'katex.min.css');
+    assertStringIncludes(math, 'echo $$', 'Dollars in code are kept');
+    assertEquals(plain.includes('katex'), false);
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
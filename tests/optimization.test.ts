@@ -0,0 +1,168 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for loading optimization.config.json in optimization.ts and
+ * applying it to builds
+ */
+
+import { join } from '@std/path';
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import {
+  DEFAULT_OPTIMIZATION_CONFIG,
+  loadOptimizationConfig,
+} from '../optimization.ts';
+import { buildTestSite, cleanupDir } from './utils/test-helpers.ts';
+
+async function withConfigFile(
+  content: string,
+  run: (path: string) => Promise<void>
+): Promise<void> {
+  const dir = await Deno.makeTempDir({ prefix: 'astrodon-optimization-' });
+  try {
+    const path = join(dir, 'optimization.config.json');
+    await Deno.writeTextFile(path, content);
+    await run(path);
+  } finally {
+    await cleanupDir(dir);
+  }
+}
+
+Deno.test('Optimization - Options fall back to defaults', async () => {
+  const missing = await loadOptimizationConfig('./missing.config.json');
+  assertEquals(missing.config, DEFAULT_OPTIMIZATION_CONFIG);
+  assertEquals(missing.warnings, []);
+
+  await withConfigFile(
+    JSON.stringify({
+      build: { parallel: { maxConcurrency: 2 }, cache: { ttl: 300000 } },
+      css: { optimization: { minify: true } },
+      server: { gzip: true },
+    }),
+    async path => {
+      const { config, warnings } = await loadOptimizationConfig(path);
+
+      assertEquals(config.build.parallel, { enabled: true, maxConcurrency: 2 });
+      assertEquals(config.server, DEFAULT_OPTIMIZATION_CONFIG.server);
+      assertEquals(warnings, [
+        `Options build.cache.ttl, css in ${path} are not supported yet and are ignored`,
+        `Unknown option server.gzip in ${path} is ignored`,
+      ]);
+    }
+  );
+});
+
+Deno.test('Optimization - Shipped config file loads', async () => {
+  const { pathname: path } = new URL(
+    '../optimization.config.json',
+    import.meta.url
+  );
+  const { config, warnings } = await loadOptimizationConfig(path);
+
+  assertEquals(config.server.cache, { enabled: true, ttl: 300000 });
+  assertEquals(warnings, [
+    `Options build.cache.ttl, build.cache.maxSize, css, lua in ${path} are not supported yet and are ignored`,
+  ]);
+});
+
+Deno.test('Optimization - Invalid files name the option', async () => {
+  await withConfigFile('{ "build": ', async path => {
+    await assertRejects(
+      () => loadOptimizationConfig(path),
+      Error,
+      `Invalid JSON in ${path}`
+    );
+  });
+  await withConfigFile(
+    '{ "build": { "parallel": { "maxConcurrency": 0 } } }',
+    async path => {
+      await assertRejects(
+        () => loadOptimizationConfig(path),
+        Error,
+        'build.parallel.maxConcurrency must be a positive integer, got 0'
+      );
+    }
+  );
+  await withConfigFile('{ "server": { "cache": true } }', async path => {
+    await assertRejects(
+      () => loadOptimizationConfig(path),
+      Error,
+      'server.cache must be an object, got true'
+    );
+  });
+});
+
+Deno.test('Optimization - Compression minSize may be 0', async () => {
+  await withConfigFile(
+    '{ "server": { "compression": { "minSize": 0 } } }',
+    async path => {
+      const { config } = await loadOptimizationConfig(path);
+      assertEquals(config.server.compression, { enabled: true, minSize: 0 });
+    }
+  );
+  await withConfigFile(
+    '{ "server": { "compression": { "minSize": -1 } } }',
+    async path => {
+      await assertRejects(
+        () => loadOptimizationConfig(path),
+        Error,
+        'server.compression.minSize must be a non-negative integer, got -1'
+      );
+    }
+  );
+});
+
+Deno.test('Optimization - Build cache and slow file warnings', async () => {
+  const testDir = join(Deno.cwd(), 'test-optimization-site');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+  const optimizationConfig = join(testDir, 'optimization.config.json');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    for (const name of ['a', 'b', 'c']) {
+      await Deno.writeTextFile(join(contentDir, `${name}.md`), `# ${name}\n`);
+    }
+    await Deno.writeTextFile(
+      optimizationConfig,
+      JSON.stringify({
+        build: {
+          cache: { enabled: false },
+          parallel: { maxConcurrency: 1 },
+          monitoring: { slowFileThreshold: 1 },
+        },
+      })
+    );
+
+    await buildTestSite({ contentDir, outDir, optimizationConfig });
+    const result = await buildTestSite({
+      contentDir,
+      outDir,
+      optimizationConfig,
+    });
+
+    assertEquals(result.pages.length, 3);
+    assertEquals(
+      result.pages.filter(page => page.cached).length,
+      0,
+      'Pages are rebuilt with the cache disabled'
+    );
+    assert(
+      result.warnings.some(warning =>
+        /^Slow file: .*\.md took [\d.]+ms \(threshold 1ms\)$/.test(warning)
+      )
+    );
+
+    await Deno.writeTextFile(
+      optimizationConfig,
+      '{ "build": { "monitoring": { "logSlowFiles": "yes" } } }'
+    );
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir, optimizationConfig }),
+      Error,
+      'build.monitoring.logSlowFiles must be true or false'
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
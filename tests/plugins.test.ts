@@ -0,0 +1,139 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for build plugins and their hooks
+ */
+
+import { join } from '@std/path';
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import { build, type AstrodonPlugin } from '../mod.ts';
+import {
+  cleanupDir,
+  createTestContent,
+  getBenchmarkDir,
+  getTemplatePath,
+} from './utils/test-helpers.ts';
+
+Deno.test('Plugins - Hooks run in pipeline order', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-plugins');
+  const outDir = join(benchmarkDir, 'dist-test-plugins');
+  const calls: string[] = [];
+
+  const plugin: AstrodonPlugin = {
+    name: 'test-plugin',
+    onConfig() {
+      calls.push('onConfig');
+    },
+    transformFrontmatter(meta) {
+      calls.push('transformFrontmatter');
+      return { ...meta, title: `${meta.title} (edited)` };
+    },
+    transformMarkdown(markdown) {
+      calls.push('transformMarkdown');
+      return `${markdown}\n\nAppended by plugin`;
+    },
+    transformAst(tree) {
+      calls.push('transformAst');
+      tree.children.push({
+        type: 'paragraph',
+        children: [{ type: 'text', value: 'Added to the tree' }],
+      });
+      return tree;
+    },
+    transformHtml(html, page) {
+      calls.push('transformHtml');
+      return `<div class="plugin-wrapper" data-url="${page.url}">${html}</div>`;
+    },
+    transformPage(html) {
+      calls.push('transformPage');
+      return html.replace('</body>', '<!-- plugin --></body>');
+    },
+    async onBuildEnd(result, { emitFile }) {
+      calls.push('onBuildEnd');
+      await emitFile(
+        'pages.json',
+        JSON.stringify(result.pages.map(p => p.meta.title))
+      );
+    },
+  };
+
+  try {
+    await createTestContent(
+      testContentDir,
+      'post.md',
+      `---
+title: Plugin Post
+---
+
+# Post
+`
+    );
+
+    await cleanupDir(outDir);
+    const result = await build({
+      contentDir: testContentDir,
+      outDir,
+      template: getTemplatePath(),
+      plugins: [plugin],
+    });
+
+    assertEquals(calls, [
+      'onConfig',
+      'transformFrontmatter',
+      'transformMarkdown',
+      'transformAst',
+      'transformHtml',
+      'transformPage',
+      'onBuildEnd',
+    ]);
+
+    const html = await Deno.readTextFile(join(outDir, 'post.html'));
+    assertStringIncludes(html, '<title>Plugin Post (edited)');
+    assertStringIncludes(html, 'Appended by plugin');
+    assertStringIncludes(html, '<p>Added to the tree</p>');
+    assertStringIncludes(html, 'data-url="/post"');
+    assertStringIncludes(html, '<!-- plugin --></body>');
+
+    assertEquals(result.emittedFiles, [join(outDir, 'pages.json')]);
+    assertEquals(
+      JSON.parse(await Deno.readTextFile(join(outDir, 'pages.json'))),
+      ['Plugin Post (edited)']
+    );
+  } finally {
+    await cleanupDir(outDir);
+    await cleanupDir(testContentDir);
+  }
+});
+
+Deno.test('Plugins - Emitting outside outDir is rejected', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-plugins-escape');
+  const outDir = join(benchmarkDir, 'dist-test-plugins-escape');
+
+  try {
+    await createTestContent(testContentDir, 'page.md', '# Page');
+
+    await cleanupDir(outDir);
+    await assertRejects(
+      () =>
+        build({
+          contentDir: testContentDir,
+          outDir,
+          plugins: [
+            {
+              name: 'escaping-plugin',
+              async onBuildEnd(_result, { emitFile }) {
+                await emitFile('../escaped.txt', 'nope');
+              },
+            },
+          ],
+        }),
+      Error,
+      'Plugin "escaping-plugin" failed in onBuildEnd'
+    );
+  } finally {
+    await cleanupDir(outDir);
+    await cleanupDir(testContentDir);
+  }
+});
@@ -0,0 +1,136 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for scheduled publishing of pages with a future `publishDate` or
+ * `date`
+ */
+
+import { join } from '@std/path';
+import { assert, assertEquals, assertFalse } from '@std/assert';
+import { rebuildChanged } from '../build.ts';
+import {
+  buildTestSite,
+  cleanupDir,
+  exists,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+
+async function createScheduledSite(contentDir: string) {
+  const blogsDir = join(contentDir, 'blogs');
+  await Deno.mkdir(blogsDir, { recursive: true });
+  await Deno.writeTextFile(join(contentDir, 'index.md'), '# Home\n');
+  await Deno.writeTextFile(
+    join(blogsDir, 'index.md'),
+    '# Blog\n\n{{routes:toc}}\n'
+  );
+  await Deno.writeTextFile(
+    join(blogsDir, 'past.md'),
+    '---\ntitle: Past Post\ndate: 2024-01-01\n---\n\nOut already.\n'
+  );
+  await Deno.writeTextFile(
+    join(blogsDir, 'future.md'),
+    '---\ntitle: Future Post\ndate: 2024-06-01\n---\n\nComing up.\n'
+  );
+  await Deno.writeTextFile(
+    join(blogsDir, 'embargoed.md'),
+    '---\ntitle: Embargoed Post\ndate: 2023-12-01\npublishDate: 2024-04-01\n---\n\nLater.\n'
+  );
+  // Drafts aren't published on their date, so they don't count as scheduled
+  await Deno.writeTextFile(
+    join(blogsDir, 'idea.md'),
+    '---\ntitle: Idea\ndate: 2024-03-15\ndraft: true\n---\n\nMaybe.\n'
+  );
+}
+
+Deno.test(
+  'Scheduled - Future pages are left out until their date',
+  async () => {
+    const benchmarkDir = getBenchmarkDir();
+    const contentDir = join(benchmarkDir, 'routes-test-scheduled');
+    const testDir = join(benchmarkDir, 'dist-test-scheduled');
+    const outDir = join(testDir, 'site');
+
+    try {
+      await cleanupDir(contentDir);
+      await cleanupDir(testDir);
+      await createScheduledSite(contentDir);
+
+      const result = await buildTestSite({
+        contentDir,
+        outDir,
+        now: new Date('2024-03-01T00:00:00Z'),
+      });
+
+      assertEquals(result.errors, []);
+      assert(await exists(join(outDir, 'blogs', 'past.html')));
+      assertFalse(await exists(join(outDir, 'blogs', 'future.html')));
+      assertFalse(
+        await exists(join(outDir, 'blogs', 'embargoed.html')),
+        'publishDate takes precedence over date'
+      );
+      assertEquals(
+        result.nextPublishDate?.toISOString(),
+        '2024-04-01T00:00:00.000Z'
+      );
+
+      const blogIndex = await Deno.readTextFile(
+        join(outDir, 'blogs', 'index.html')
+      );
+      assert(blogIndex.includes('Past Post'));
+      assertFalse(blogIndex.includes('Future Post'), 'No TOC card');
+      assertFalse(blogIndex.includes('/blogs/future'), 'Not in the navigation');
+      assertFalse(blogIndex.includes('Embargoed Post'));
+
+      // Once the date has passed the next build publishes them
+      const later = await buildTestSite({
+        contentDir,
+        outDir,
+        now: new Date('2024-07-01T00:00:00Z'),
+      });
+      assert(await exists(join(outDir, 'blogs', 'future.html')));
+      assert(await exists(join(outDir, 'blogs', 'embargoed.html')));
+      assertEquals(later.nextPublishDate, null);
+      const updatedIndex = await Deno.readTextFile(
+        join(outDir, 'blogs', 'index.html')
+      );
+      assert(updatedIndex.includes('Future Post'));
+      assert(updatedIndex.includes('href="/blogs/embargoed"'));
+    } finally {
+      await cleanupDir(contentDir);
+      await cleanupDir(testDir);
+    }
+  }
+);
+
+Deno.test('Scheduled - Rebuilds publish against the current time', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-scheduled-rebuild');
+  const testDir = join(benchmarkDir, 'dist-test-scheduled-rebuild');
+  const outDir = join(testDir, 'site');
+  const soonPath = join(outDir, 'soon.html');
+
+  try {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'index.md'), '# Home\n');
+    const publishDate = new Date(Date.now() + 1000).toISOString();
+    await Deno.writeTextFile(
+      join(contentDir, 'soon.md'),
+      `---\ntitle: Soon\npublishDate: ${publishDate}\n---\n\nAlmost.\n`
+    );
+
+    const result = await buildTestSite({ contentDir, outDir });
+    assertEquals(result.nextPublishDate?.toISOString(), publishDate);
+    assertFalse(await exists(soonPath));
+
+    // Without a fixed `now`, a watch rebuild after the date publishes it
+    // even though no file changed
+    await new Promise(resolve => setTimeout(resolve, 1200));
+    await rebuildChanged(new Set(), []);
+    assert(await exists(soonPath));
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
@@ -162,12 +162,73 @@ More content here.
       false,
       '{{/htmlcode}} marker should be replaced'
     );
-    assertStringIncludes(html, '&lt;div', 'HTML should be escaped');
-    assertStringIncludes(html, 'language-html', 'Should have HTML language class');
+    assertStringIncludes(
+      html,
+      '<span class="token punctuation">&lt;</span>div',
+      'HTML should be escaped and highlighted'
+    );
+    assertStringIncludes(
+      html,
+      'language-html',
+      'Should have HTML language class'
+    );
   } finally {
     await cleanupDir(outDir);
     await cleanupDir(testContentDir);
   }
 });
 
+Deno.test('Template Markers - Site name, logo and metadata', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-site');
+  const outDir = join(benchmarkDir, 'dist-test-site');
+
+  try {
+    await createTestContent(
+      testContentDir,
+      'about.md',
+      '---\ntitle: About & Contact\n---\n\n# About'
+    );
+    await createTestContent(testContentDir, 'untitled.md', 'No title');
+
+    await cleanupDir(outDir);
+    await buildTestSite({
+      contentDir: testContentDir,
+      outDir,
+      site: {
+        name: 'Field Notes',
+        titleTemplate: '%s — Field Notes',
+        baseUrl: 'https://notes.example.com/',
+        logo: '/assets/logo.svg',
+        language: 'nl',
+        description: 'Notes from the field',
+        author: 'Sam',
+      },
+    });
+
+    const about = await Deno.readTextFile(join(outDir, 'about.html'));
+    const untitled = await Deno.readTextFile(join(outDir, 'untitled.html'));
 
+    assertStringIncludes(about, '<html lang="nl">');
+    assertStringIncludes(about, '<title>About &amp; Contact — Field Notes');
+    assertStringIncludes(untitled, '<title>Field Notes</title>');
+    assertStringIncludes(
+      about,
+      '<img src="/assets/logo.svg" alt="" class="navbar-logo">' +
+        '<span class="navbar-brand-text">Field Notes</span>'
+    );
+    assertStringIncludes(
+      about,
+      '<meta name="description" content="Notes from the field">'
+    );
+    assertStringIncludes(about, '<meta name="author" content="Sam">');
+    assertStringIncludes(
+      about,
+      '<link rel="canonical" href="https://notes.example.com/about">'
+    );
+    assertEquals(/Nergy|nemic/.test(about), false, 'No hardcoded branding');
+  } finally {
+    await cleanupDir(outDir);
+    await cleanupDir(testContentDir);
+  }
+});
@@ -5,7 +5,12 @@
  */
 
 import { join } from '@std/path';
-import { assertStringIncludes } from '@std/assert';
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from '@std/assert';
 import {
   buildBenchmarkBlog,
   buildTestSite,
@@ -82,6 +87,51 @@ More content.
   }
 });
 
+Deno.test('Template Processing - Quote attribution', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const testContentDir = join(benchmarkDir, 'routes-test-quote-tree');
+  const outDir = join(benchmarkDir, 'dist-test-quote-tree');
+
+  try {
+    await createTestContent(
+      testContentDir,
+      'test-quote.md',
+      `---
+title: Quote Test
+---
+
+> "Quotes & more"
+> - Quote Author
+
+\`\`\`
+> "Not a quote" - Code Author
+\`\`\`
+`
+    );
+
+    await cleanupDir(outDir);
+    await buildTestSite({
+      contentDir: testContentDir,
+      outDir,
+      template: getTemplatePath(),
+    });
+
+    const html = await Deno.readTextFile(join(outDir, 'test-quote.html'));
+
+    assertStringIncludes(html, '"Quotes &amp; more"');
+    assertStringIncludes(html, '<cite>- Quote Author</cite>');
+    assertStringIncludes(
+      html,
+      '&gt; &quot;Not a quote&quot; - Code Author',
+      'Code blocks should be left untouched'
+    );
+    assertEquals(html.includes('Code Author</cite>'), false);
+  } finally {
+    await cleanupDir(outDir);
+    await cleanupDir(testContentDir);
+  }
+});
+
 Deno.test('Template Processing - Frontmatter extraction', async () => {
   const benchmarkDir = getBenchmarkDir();
   const outDir = join(benchmarkDir, 'dist-test-frontmatter');
@@ -148,3 +198,127 @@ Content here.
   }
 });
 
+Deno.test('Template Processing - Site data and collections', async () => {
+  const testDir = join(Deno.cwd(), 'test-site-data');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+  const template = join(testDir, 'template.ts');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(join(contentDir, 'blog'), { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'index.md'), '# Home\n');
+    await Deno.writeTextFile(
+      join(contentDir, 'blog', 'a.md'),
+      '---\ntitle: A\ndate: 2024-01-01\ntags: [deno]\n---\n\n# A\n'
+    );
+    await Deno.writeTextFile(
+      join(contentDir, 'blog', 'b.md'),
+      '---\ntitle: B\ndate: 2024-03-01\ntags: [deno, web]\n---\n\n# B\n'
+    );
+    await Deno.writeTextFile(join(contentDir, 'blog', 'c.md'), '# C\n');
+    await Deno.writeTextFile(
+      template,
+      `export function render(content, { url, outputPath, site }) {
+  const latest = site
+    .sortedByDate(site.inDirectory('blog'))
+    .map(page => '<li>' + page.url + '</li>');
+  const tags = site.tags().map(({ tag, count }) => tag + ':' + count);
+  const tagged = site.withTag('web').map(page => page.meta.title);
+  const isIndex = outputPath.endsWith('index.html');
+  return content +
+    '<ul id="latest">' + latest.join('') + '</ul>' +
+    '<p id="tags">' + tags.join(',') + '</p>' +
+    '<p id="tagged">' + tagged + '</p>' +
+    '<p id="page">' + url + ' ' + isIndex + '</p>' +
+    '<p id="nav">' + site.navigation.map(item => item.title) + '</p>';
+}
+`
+    );
+
+    await buildTestSite({ contentDir, outDir, template });
+    const html = await Deno.readTextFile(join(outDir, 'index.html'));
+
+    assertStringIncludes(
+      html,
+      '<ul id="latest"><li>/blog/b</li><li>/blog/a</li><li>/blog/c</li></ul>'
+    );
+    assertStringIncludes(html, '<p id="tags">deno:2,web:1</p>');
+    assertStringIncludes(html, '<p id="tagged">B</p>');
+    assertStringIncludes(html, '<p id="page">/ true</p>');
+    assertStringIncludes(html, '<p id="nav">Blog</p>');
+
+    // Pages listing other pages are rebuilt when their frontmatter changes
+    await Deno.writeTextFile(
+      join(contentDir, 'blog', 'c.md'),
+      '---\ndate: 2024-06-01\ntags: [web]\n---\n\n# C\n'
+    );
+    await buildTestSite({ contentDir, outDir, template });
+    assertStringIncludes(
+      await Deno.readTextFile(join(outDir, 'index.html')),
+      '<p id="tags">deno:2,web:2</p>'
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Template Processing - Template errors are reported', async () => {
+  const testDir = join(Deno.cwd(), 'test-template-errors');
+  const contentDir = join(testDir, 'routes');
+  const outDir = join(testDir, 'dist');
+  const template = join(testDir, 'template.ts');
+
+  try {
+    await cleanupDir(testDir);
+    await Deno.mkdir(contentDir, { recursive: true });
+    await Deno.writeTextFile(join(contentDir, 'ok.md'), '# Fine\n');
+    await Deno.writeTextFile(join(contentDir, 'bad.md'), '# Broken\n');
+    await Deno.writeTextFile(
+      template,
+      `export function render(content, { path }) {
+  if (path.endsWith('bad.md')) throw new Error('boom');
+  return '<div class="wrapped">' + content + '</div>';
+}
+`
+    );
+
+    const result = await buildTestSite({ contentDir, outDir, template });
+    const warning = result.warnings.find(warning =>
+      warning.includes('failed rendering')
+    );
+
+    assert(warning, 'Render errors are reported');
+    assertStringIncludes(
+      warning,
+      `Template ${template} failed rendering ${join(contentDir, 'bad.md')}:\n`
+    );
+    assertStringIncludes(warning, 'Error: boom\n    at render');
+    assertEquals(result.pages.length, 2, 'Pages keep their plain content');
+    assertStringIncludes(
+      await Deno.readTextFile(join(outDir, 'ok.html')),
+      '<div class="wrapped">'
+    );
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir, template, strict: true }),
+      Error,
+      'template errors in 1 page(s) (strict mode)'
+    );
+
+    await Deno.writeTextFile(template, 'export function render( {');
+    const broken = await buildTestSite({ contentDir, outDir, template });
+    assert(
+      broken.warnings.some(warning =>
+        warning.startsWith(`Could not load template ${template}`)
+      ),
+      'Load errors are reported'
+    );
+    await assertRejects(
+      () => buildTestSite({ contentDir, outDir, template, strict: true }),
+      Error,
+      `Could not load template ${template} (strict mode)`
+    );
+  } finally {
+    await cleanupDir(testDir);
+  }
+});
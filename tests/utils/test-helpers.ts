@@ -3,12 +3,28 @@
  */
 
 import { join } from '@std/path';
-import { build } from '../../mod.ts';
+import {
+  type AstrodonPlugin,
+  build,
+  type BuildResult,
+  type SiteConfig,
+} from '../../mod.ts';
 
 export interface TestBuildOptions {
   contentDir: string;
   outDir: string;
+  assetsDir?: string;
   template?: string;
+  componentsDir?: string;
+  layoutsDir?: string;
+  site?: SiteConfig;
+  plugins?: AstrodonPlugin[];
+  optimizationConfig?: string;
+  strict?: boolean;
+  failOnError?: boolean;
+  clean?: boolean;
+  includeDrafts?: boolean;
+  now?: Date;
 }
 
 /**
@@ -30,11 +46,11 @@ export function getTemplatePath(): string {
  */
 export async function buildBenchmarkBlog(
   outDir: string
-): Promise<void> {
+): Promise<BuildResult> {
   const benchmarkDir = getBenchmarkDir();
   const contentDir = join(benchmarkDir, 'routes');
 
-  await build({
+  return await build({
     contentDir,
     outDir,
     template: getTemplatePath(),
@@ -46,11 +62,22 @@ export async function buildBenchmarkBlog(
  */
 export async function buildTestSite(
   options: TestBuildOptions
-): Promise<void> {
-  await build({
+): Promise<BuildResult> {
+  return await build({
     contentDir: options.contentDir,
     outDir: options.outDir,
+    assetsDir: options.assetsDir,
     template: options.template ?? getTemplatePath(),
+    componentsDir: options.componentsDir,
+    layoutsDir: options.layoutsDir,
+    site: options.site,
+    plugins: options.plugins,
+    optimizationConfig: options.optimizationConfig,
+    strict: options.strict,
+    failOnError: options.failOnError,
+    clean: options.clean,
+    includeDrafts: options.includeDrafts,
+    now: options.now,
   });
 }
 
@@ -65,6 +92,18 @@ export async function cleanupDir(dir: string): Promise<void> {
   }
 }
 
+/**
+ * Check whether a file or directory exists
+ */
+export async function exists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Extract text content from HTML elements by class selector
  */
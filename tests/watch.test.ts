@@ -0,0 +1,178 @@
+#!/usr/bin/env -S deno test --allow-read --allow-write --allow-run --allow-net
+
+/**
+ * Tests for incremental rebuilds in watch mode, driven through
+ * rebuildChanged() instead of a file watcher
+ */
+
+import { join } from '@std/path';
+import { assert, assertEquals, assertFalse } from '@std/assert';
+import { rebuildChanged } from '../build.ts';
+import type { NavItem } from '../template.ts';
+import {
+  buildTestSite,
+  cleanupDir,
+  exists,
+  getBenchmarkDir,
+} from './utils/test-helpers.ts';
+
+interface WatchSite {
+  contentDir: string;
+  componentsDir: string;
+  template: string;
+  outDir: string;
+}
+
+// Build a small blog and return the navigation the watcher would start with;
+// its content goes in `contentDir`, everything else in `testDir`
+async function buildWatchSite(
+  contentDir: string,
+  testDir: string
+): Promise<{ site: WatchSite; navItems: NavItem[] }> {
+  const site = {
+    contentDir,
+    componentsDir: join(testDir, 'components'),
+    template: join(testDir, 'template.ts'),
+    outDir: join(testDir, 'site'),
+  };
+  const blogsDir = join(site.contentDir, 'blogs');
+  await cleanupDir(contentDir);
+  await cleanupDir(testDir);
+  await Deno.mkdir(blogsDir, { recursive: true });
+  await Deno.mkdir(site.componentsDir, { recursive: true });
+  await Deno.writeTextFile(join(site.contentDir, 'index.md'), '# Home\n');
+  await Deno.writeTextFile(
+    join(site.contentDir, 'about.md'),
+    '# About\n\n{{component:callout}}\nHello\n{{/component}}\n'
+  );
+  await Deno.writeTextFile(
+    join(site.componentsDir, 'callout.html'),
+    '<aside class="callout-v1">{{children}}</aside>'
+  );
+  await Deno.writeTextFile(
+    site.template,
+    `export function render(content) {
+  return '<div class="template-v1">' + content + '</div>';
+}
+`
+  );
+  await Deno.writeTextFile(
+    join(blogsDir, 'index.md'),
+    '# Blog\n\n{{routes:toc}}\n'
+  );
+  await Deno.writeTextFile(
+    join(blogsDir, 'first.md'),
+    '---\ntitle: First Post\ndate: 2024-01-02\n---\n\nFirst excerpt.\n'
+  );
+  await Deno.writeTextFile(
+    join(blogsDir, 'second.md'),
+    '---\ntitle: Second Post\ndate: 2024-01-01\n---\n\nSecond excerpt.\n'
+  );
+
+  await buildTestSite(site);
+  // Against an empty navigation any content change regenerates it
+  const navItems = await rebuildChanged(
+    new Set([join(blogsDir, 'first.md')]),
+    []
+  );
+  return { site, navItems };
+}
+
+Deno.test('Watch - Editing a post re-renders it and its index', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-watch-edit');
+  const testDir = join(benchmarkDir, 'dist-test-watch-edit');
+
+  try {
+    const { site, navItems } = await buildWatchSite(contentDir, testDir);
+    const aboutPath = join(site.outDir, 'about.html');
+    await Deno.writeTextFile(aboutPath, 'untouched');
+
+    await Deno.writeTextFile(
+      join(site.contentDir, 'blogs', 'first.md'),
+      '---\ntitle: First Post\ndate: 2024-01-02\n---\n\nUpdated excerpt.\n'
+    );
+    const updatedNavItems = await rebuildChanged(
+      new Set([join(site.contentDir, 'blogs', 'first.md')]),
+      navItems
+    );
+
+    assertEquals(updatedNavItems, navItems);
+    const post = await Deno.readTextFile(
+      join(site.outDir, 'blogs', 'first.html')
+    );
+    assert(post.includes('Updated excerpt.'));
+    const blogIndex = await Deno.readTextFile(
+      join(site.outDir, 'blogs', 'index.html')
+    );
+    assert(blogIndex.includes('Updated excerpt.'), 'TOC cards are current');
+    assertEquals(
+      await Deno.readTextFile(aboutPath),
+      'untouched',
+      'Unaffected pages are not rebuilt'
+    );
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Watch - Deleting a post removes its output', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-watch-delete');
+  const testDir = join(benchmarkDir, 'dist-test-watch-delete');
+
+  try {
+    const { site, navItems } = await buildWatchSite(contentDir, testDir);
+    const secondPath = join(site.contentDir, 'blogs', 'second.md');
+    assert(await exists(join(site.outDir, 'blogs', 'second.html')));
+
+    await Deno.remove(secondPath);
+    await rebuildChanged(new Set([secondPath]), navItems);
+
+    assertFalse(await exists(join(site.outDir, 'blogs', 'second.html')));
+    const blogIndex = await Deno.readTextFile(
+      join(site.outDir, 'blogs', 'index.html')
+    );
+    assertFalse(blogIndex.includes('Second Post'), 'Gone from TOC and nav');
+    assert(blogIndex.includes('First Post'));
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});
+
+Deno.test('Watch - Template and component changes rebuild pages', async () => {
+  const benchmarkDir = getBenchmarkDir();
+  const contentDir = join(benchmarkDir, 'routes-test-watch-dependents');
+  const testDir = join(benchmarkDir, 'dist-test-watch-dependents');
+
+  try {
+    const { site, navItems } = await buildWatchSite(contentDir, testDir);
+    const aboutPath = join(site.outDir, 'about.html');
+    const postPath = join(site.outDir, 'blogs', 'first.html');
+    assert((await Deno.readTextFile(aboutPath)).includes('callout-v1'));
+
+    const componentPath = join(site.componentsDir, 'callout.html');
+    await Deno.writeTextFile(
+      componentPath,
+      '<aside class="callout-v2">{{children}}</aside>'
+    );
+    await rebuildChanged(new Set([componentPath]), navItems);
+    assert((await Deno.readTextFile(aboutPath)).includes('callout-v2'));
+
+    await Deno.writeTextFile(
+      site.template,
+      `export function render(content) {
+  return '<div class="template-v2">' + content + '</div>';
+}
+`
+    );
+    await rebuildChanged(new Set([site.template]), navItems);
+    assert((await Deno.readTextFile(aboutPath)).includes('template-v2'));
+    assert((await Deno.readTextFile(postPath)).includes('template-v2'));
+  } finally {
+    await cleanupDir(contentDir);
+    await cleanupDir(testDir);
+  }
+});